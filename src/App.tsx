@@ -3,24 +3,44 @@ import { Toaster as Sonner } from "@/components/ui/sonner";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route } from "react-router-dom";
+import { AuthProvider } from "@/hooks/use-auth";
+import { FarmProvider } from "@/hooks/use-farm";
+import { RequireAuth } from "@/components/RequireAuth";
 import Index from "./pages/Index";
+import Login from "./pages/Login";
+import Cows from "./pages/Cows";
+import CowForm from "./pages/CowForm";
+import CowHistory from "./pages/CowHistory";
+import Dashboard from "./pages/Dashboard";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient();
 
 const App = () => (
   <QueryClientProvider client={queryClient}>
-    <TooltipProvider>
-      <Toaster />
-      <Sonner />
-      <BrowserRouter>
-        <Routes>
-          <Route path="/" element={<Index />} />
-          {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
-          <Route path="*" element={<NotFound />} />
-        </Routes>
-      </BrowserRouter>
-    </TooltipProvider>
+    <AuthProvider>
+      <FarmProvider>
+        <TooltipProvider>
+          <Toaster />
+          <Sonner />
+          <BrowserRouter>
+            <Routes>
+              <Route path="/login" element={<Login />} />
+              <Route element={<RequireAuth />}>
+                <Route path="/" element={<Index />} />
+                <Route path="/vacas" element={<Cows />} />
+                <Route path="/vacas/nueva" element={<CowForm />} />
+                <Route path="/vacas/:id" element={<CowHistory />} />
+                <Route path="/vacas/:id/editar" element={<CowForm />} />
+                <Route path="/rebano" element={<Dashboard />} />
+              </Route>
+              {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
+              <Route path="*" element={<NotFound />} />
+            </Routes>
+          </BrowserRouter>
+        </TooltipProvider>
+      </FarmProvider>
+    </AuthProvider>
   </QueryClientProvider>
 );
 
@@ -0,0 +1,43 @@
+import type { ReactNode } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import { ArrowLeft } from 'lucide-react';
+import logo from '@/assets/Logo.png';
+
+type AppHeaderProps = {
+  title: string;
+  backTo?: string;
+  actions?: ReactNode;
+};
+
+export const AppHeader = ({ title, backTo, actions }: AppHeaderProps) => {
+  const navigate = useNavigate();
+
+  return (
+    <div className="bg-[#7A4E32] shadow-md p-4 sticky top-0 z-10">
+      <div className="flex items-center max-w-md mx-auto">
+        {backTo && (
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => navigate(backTo)}
+            className="mr-3 text-[#FBF5E9] hover:bg-[#FBF5E9]/10"
+          >
+            <ArrowLeft className="w-5 h-5" />
+          </Button>
+        )}
+        <div className="flex items-center flex-1">
+          <div className="w-8 h-8 mr-2">
+            <img
+              src={logo}
+              alt="Rumpex AI Logo"
+              className="w-full h-full object-contain"
+            />
+          </div>
+          <h1 className="text-xl font-serif font-bold text-[#FBF5E9]">{title}</h1>
+        </div>
+        {actions}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,89 @@
+import { useState } from 'react';
+import { cn } from '@/lib/utils';
+import { RumpLandmarksOverlay } from '@/components/RumpLandmarksOverlay';
+import type { CowDetection, RumpLandmarks } from '@/lib/analyses';
+import type { ImageSize } from '@/lib/geometry';
+
+type CowDetectionsProps = {
+  imageUrl: string;
+  vacas: CowDetection[];
+  selected: number | null;
+  onSelect: (numero: number) => void;
+  // Arete asignado a cada vaca detectada, para mostrarlo sobre la caja
+  labels?: Record<number, string>;
+  // Puntos del anca de la vaca seleccionada (los del modelo o los corregidos)
+  landmarks?: RumpLandmarks | null;
+  angulo?: number | null;
+  onLandmarksChange?: (landmarks: RumpLandmarks, size: ImageSize) => void;
+};
+
+const toPercent = (value: number) => `${value * 100}%`;
+
+// Foto del análisis con una caja tocable por cada vaca detectada y los puntos del anca de la seleccionada
+export const CowDetections = ({
+  imageUrl,
+  vacas,
+  selected,
+  onSelect,
+  labels = {},
+  landmarks,
+  angulo,
+  onLandmarksChange,
+}: CowDetectionsProps) => {
+  const [imageSize, setImageSize] = useState<ImageSize | null>(null);
+
+  return (
+    <div className="relative w-full overflow-hidden rounded-lg">
+      <img
+        src={imageUrl}
+        alt="Vacas detectadas"
+        className="w-full h-auto block"
+        onLoad={(e) => setImageSize({ width: e.currentTarget.naturalWidth, height: e.currentTarget.naturalHeight })}
+      />
+      {vacas
+        .filter((vaca) => vaca.boundingBox)
+        .map((vaca) => {
+          const box = vaca.boundingBox!;
+          const isSelected = vaca.numero === selected;
+          return (
+            <button
+              key={vaca.numero}
+              type="button"
+              onClick={() => onSelect(vaca.numero)}
+              aria-label={`Ver vaca ${vaca.numero}`}
+              aria-pressed={isSelected}
+              className={cn(
+                'absolute border-2 rounded-md transition-colors',
+                isSelected ? 'border-[#6C7E49] bg-[#6C7E49]/20' : 'border-[#FBF5E9] bg-black/10',
+              )}
+              style={{
+                left: toPercent(box.x),
+                top: toPercent(box.y),
+                width: toPercent(box.ancho),
+                height: toPercent(box.alto),
+              }}
+            >
+              <span
+                className={cn(
+                  'absolute top-1 left-1 px-1.5 rounded text-xs font-inter font-semibold',
+                  isSelected ? 'bg-[#6C7E49] text-[#FBF5E9]' : 'bg-[#FBF5E9] text-[#404335]',
+                )}
+              >
+                #{vaca.numero}
+                {labels[vaca.numero] && ` · ${labels[vaca.numero]}`}
+              </span>
+            </button>
+          );
+        })}
+      {imageSize && landmarks && (
+        <RumpLandmarksOverlay
+          landmarks={landmarks}
+          width={imageSize.width}
+          height={imageSize.height}
+          angulo={angulo}
+          onChange={onLandmarksChange && ((changed) => onLandmarksChange(changed, imageSize))}
+        />
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,222 @@
+import { useEffect, useRef, useState } from 'react';
+import { Camera, Loader2, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { cn } from '@/lib/utils';
+import { useDeviceLevel } from '@/hooks/use-device-level';
+import { useToast } from '@/hooks/use-toast';
+
+type GuidedCameraProps = {
+  onCapture: (file: File) => void;
+  onCancel: () => void;
+  // Abre la cámara del sistema cuando el navegador no deja usar getUserMedia
+  onFallback: () => void;
+};
+
+// Grados de giro que todavía cuentan como teléfono nivelado
+const LEVEL_TOLERANCE = 2;
+
+const VIDEO_CONSTRAINTS: MediaStreamConstraints = {
+  video: { facingMode: { ideal: 'environment' }, width: { ideal: 1920 }, height: { ideal: 1080 } },
+  audio: false,
+};
+
+// Silueta de una vaca de perfil mirando a la izquierda, con la línea coxal → isquion marcada en el anca
+const CowSilhouette = () => (
+  <svg
+    viewBox="0 0 400 225"
+    preserveAspectRatio="xMidYMid meet"
+    className="absolute inset-0 w-full h-full pointer-events-none"
+    aria-hidden="true"
+  >
+    <path
+      d="M112 72 C170 62 250 66 292 66 C305 66 318 70 326 78 C334 88 334 104 328 118 C322 140 322 160 320 176
+         L322 208 L306 208 L304 170 C298 158 288 152 276 150 C240 158 180 158 152 150 L150 208 L134 208 L130 160
+         C120 150 110 140 104 128 C96 118 86 112 76 112 L56 122 C46 122 42 112 46 104 L60 80 C64 72 70 68 78 66
+         C90 66 100 68 112 72 Z"
+      fill="#FBF5E9"
+      fillOpacity={0.12}
+      stroke="#FBF5E9"
+      strokeOpacity={0.8}
+      strokeWidth={2}
+      strokeDasharray="6 4"
+    />
+    <path d="M326 78 C336 100 336 140 332 170" fill="none" stroke="#FBF5E9" strokeOpacity={0.8} strokeWidth={2} />
+    <line x1={292} y1={66} x2={330} y2={96} stroke="#6C7E49" strokeWidth={3} />
+    <circle cx={292} cy={66} r={4} fill="#6C7E49" />
+    <circle cx={330} cy={96} r={4} fill="#6C7E49" />
+    <text x={311} y={56} textAnchor="middle" fill="#FBF5E9" fontSize={12} fontFamily="Inter, sans-serif">
+      Anca
+    </text>
+  </svg>
+);
+
+// Cámara dentro de la app con guía de encuadre lateral y nivel, para fotos comparables entre vacas
+export const GuidedCamera = ({ onCapture, onCancel, onFallback }: GuidedCameraProps) => {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const [isReady, setIsReady] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [isPortrait, setIsPortrait] = useState(() => window.matchMedia('(orientation: portrait)').matches);
+  const tilt = useDeviceLevel();
+  const { toast } = useToast();
+
+  useEffect(() => {
+    let stream: MediaStream | null = null;
+    let cancelled = false;
+
+    navigator.mediaDevices
+      .getUserMedia(VIDEO_CONSTRAINTS)
+      .then((mediaStream) => {
+        if (cancelled) {
+          mediaStream.getTracks().forEach((track) => track.stop());
+          return;
+        }
+        stream = mediaStream;
+        if (videoRef.current) videoRef.current.srcObject = mediaStream;
+      })
+      .catch((cameraError) => {
+        console.error('Error opening camera:', cameraError);
+        setError(
+          cameraError?.name === 'NotAllowedError'
+            ? 'No diste permiso para usar la cámara. Actívalo en los ajustes del navegador o usa la cámara del teléfono'
+            : 'No se pudo abrir la cámara en la app. Usa la cámara del teléfono',
+        );
+      });
+
+    return () => {
+      cancelled = true;
+      stream?.getTracks().forEach((track) => track.stop());
+    };
+  }, []);
+
+  useEffect(() => {
+    const query = window.matchMedia('(orientation: portrait)');
+    const onChange = () => setIsPortrait(query.matches);
+    query.addEventListener('change', onChange);
+    return () => query.removeEventListener('change', onChange);
+  }, []);
+
+  // La cámara sigue abierta para que el usuario pueda volver a intentarlo
+  const notifyCaptureError = (captureError?: unknown) => {
+    if (captureError) console.error('Error capturing photo:', captureError);
+    toast({
+      title: "No se pudo tomar la foto",
+      description: "Intenta de nuevo o usa la cámara del teléfono",
+      variant: "destructive",
+    });
+  };
+
+  const capture = () => {
+    const video = videoRef.current;
+    if (!video || !video.videoWidth) return;
+
+    const canvas = document.createElement('canvas');
+    canvas.width = video.videoWidth;
+    canvas.height = video.videoHeight;
+    const context = canvas.getContext('2d');
+    if (!context) {
+      notifyCaptureError();
+      return;
+    }
+
+    try {
+      context.drawImage(video, 0, 0);
+      canvas.toBlob(
+        (blob) => {
+          if (!blob) {
+            notifyCaptureError();
+            return;
+          }
+          onCapture(new File([blob], `vaca-${Date.now()}.jpg`, { type: 'image/jpeg' }));
+        },
+        'image/jpeg',
+        0.92,
+      );
+    } catch (captureError) {
+      notifyCaptureError(captureError);
+    }
+  };
+
+  const isLevel = tilt != null && Math.abs(tilt) <= LEVEL_TOLERANCE;
+  const hint = isPortrait
+    ? 'Gira el teléfono en horizontal'
+    : tilt == null
+      ? 'Encuadra la vaca de perfil dentro de la silueta'
+      : isLevel
+        ? 'Nivelado: encuadra la vaca de perfil dentro de la silueta'
+        : `Endereza el teléfono (${Math.abs(tilt).toFixed(0)}°)`;
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black flex flex-col">
+      <div className="relative flex-1 overflow-hidden">
+        <video
+          ref={videoRef}
+          autoPlay
+          playsInline
+          muted
+          onLoadedData={() => setIsReady(true)}
+          className="absolute inset-0 w-full h-full object-cover"
+        />
+
+        {isReady && <CowSilhouette />}
+
+        {/* Nivel: la línea se mantiene paralela al horizonte real y se pone verde al quedar nivelada */}
+        {isReady && tilt != null && !isPortrait && (
+          <div className="absolute inset-0 flex items-center justify-center pointer-events-none">
+            <div
+              className={cn('h-0.5 w-1/3 rounded-full', isLevel ? 'bg-[#6C7E49]' : 'bg-[#C35E38]')}
+              style={{ transform: `rotate(${-tilt}deg)` }}
+            />
+          </div>
+        )}
+
+        {!isReady && !error && (
+          <div className="absolute inset-0 flex items-center justify-center text-[#FBF5E9]">
+            <Loader2 className="w-8 h-8 animate-spin" />
+          </div>
+        )}
+
+        {error && (
+          <div className="absolute inset-0 flex flex-col items-center justify-center gap-4 p-6 text-center font-inter text-[#FBF5E9]">
+            <p>{error}</p>
+            <Button onClick={onFallback} className="bg-[#6C7E49] hover:bg-[#5d6e3c] text-[#FBF5E9]">
+              Usar la cámara del teléfono
+            </Button>
+          </div>
+        )}
+
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={onCancel}
+          className="absolute top-4 left-4 text-[#FBF5E9] hover:bg-[#FBF5E9]/10"
+          aria-label="Cerrar cámara"
+        >
+          <X className="w-6 h-6" />
+        </Button>
+
+        {isReady && (
+          <div
+            className={cn(
+              'absolute top-4 left-1/2 -translate-x-1/2 rounded-full px-4 py-1 font-inter text-sm',
+              isLevel && !isPortrait ? 'bg-[#6C7E49] text-[#FBF5E9]' : 'bg-black/60 text-[#FBF5E9]',
+            )}
+          >
+            {hint}
+          </div>
+        )}
+      </div>
+
+      <div className="flex justify-center p-4">
+        <button
+          type="button"
+          onClick={capture}
+          disabled={!isReady}
+          aria-label="Tomar foto"
+          className="w-16 h-16 rounded-full border-4 border-[#FBF5E9] bg-[#6C7E49] disabled:opacity-50 flex items-center justify-center"
+        >
+          <Camera className="w-7 h-7 text-[#FBF5E9]" />
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -1,19 +1,23 @@
 import { useState, useRef } from 'react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
-import { Textarea } from '@/components/ui/textarea';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
 import { Label } from '@/components/ui/label';
 import { Upload, Loader2, Image as ImageIcon } from 'lucide-react';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
+import { useFarm } from '@/hooks/use-farm';
+import { uploadImage } from '@/lib/storage';
 
 export const ImageAnalyzer = () => {
   const [selectedImage, setSelectedImage] = useState<string | null>(null);
-  const [prompt, setPrompt] = useState('');
+  const [selectedFile, setSelectedFile] = useState<File | null>(null);
+  const [prompt, setPrompt] = useState('anca-basico');
   const [analysis, setAnalysis] = useState<string>('');
   const [isAnalyzing, setIsAnalyzing] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
   const { toast } = useToast();
+  const { farm } = useFarm();
 
   const handleImageSelect = (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
@@ -30,6 +34,7 @@ export const ImageAnalyzer = () => {
       const reader = new FileReader();
       reader.onload = (e) => {
         setSelectedImage(e.target?.result as string);
+        setSelectedFile(file);
         setAnalysis(''); // Clear previous analysis
       };
       reader.readAsDataURL(file);
@@ -37,7 +42,7 @@ export const ImageAnalyzer = () => {
   };
 
   const analyzeImage = async () => {
-    if (!selectedImage) {
+    if (!selectedFile) {
       toast({
         title: "Error",
         description: "Por favor selecciona una imagen primero",
@@ -48,10 +53,12 @@ export const ImageAnalyzer = () => {
 
     setIsAnalyzing(true);
     try {
+      const imagePath = await uploadImage(selectedFile, farm.id);
       const { data, error } = await supabase.functions.invoke('analyze-image', {
         body: {
-          image: selectedImage,
-          prompt: prompt || undefined
+          imagePath,
+          farmId: farm.id,
+          prompt
         }
       });
 
@@ -144,18 +151,20 @@ export const ImageAnalyzer = () => {
             />
           </div>
 
-          {/* Custom Prompt Section */}
+          {/* Prompt Template Section */}
           <div className="space-y-2">
-            <Label htmlFor="prompt">Instrucciones personalizadas (opcional)</Label>
-            <Textarea
-              id="prompt"
-              placeholder="Ej: Enfócate en los colores y objetos principales, o describe el estado emocional de las personas..."
+            <Label>Tipo de análisis</Label>
+            <ToggleGroup
+              type="single"
               value={prompt}
-              onChange={(e) => setPrompt(e.target.value)}
-              rows={3}
-            />
+              onValueChange={(value) => value && setPrompt(value)}
+              className="justify-start"
+            >
+              <ToggleGroupItem value="anca-basico">Básico</ToggleGroupItem>
+              <ToggleGroupItem value="anca-tecnico">Técnico</ToggleGroupItem>
+            </ToggleGroup>
             <p className="text-xs text-muted-foreground">
-              Si no especificas nada, se hará un análisis general de la imagen
+              Se usa la última versión de la plantilla elegida
             </p>
           </div>
 
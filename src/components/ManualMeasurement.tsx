@@ -0,0 +1,108 @@
+import { useState } from 'react';
+import { RotateCcw } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { RumpLandmarksOverlay } from '@/components/RumpLandmarksOverlay';
+import type { Point, RumpLandmarks } from '@/lib/analyses';
+import { clampPoint, measureRump, type ImageSize, type RumpMeasurement } from '@/lib/geometry';
+
+export type ManualResult = RumpMeasurement & { puntos: RumpLandmarks };
+
+type ManualMeasurementProps = {
+  imageUrl: string;
+  onChange: (result: ManualResult | null) => void;
+};
+
+const HINTS = [
+  'Toca la tuberosidad coxal (punta de la cadera)',
+  'Ahora toca la tuberosidad isquiática (isquion)',
+  'Arrastra los puntos para ajustarlos',
+];
+
+// Medición sin IA: el usuario marca coxal e isquion sobre la foto y el ángulo se calcula en el dispositivo
+export const ManualMeasurement = ({ imageUrl, onChange }: ManualMeasurementProps) => {
+  const [imageSize, setImageSize] = useState<ImageSize | null>(null);
+  const [coxal, setCoxal] = useState<Point | null>(null);
+  const [puntos, setPuntos] = useState<RumpLandmarks | null>(null);
+
+  const updatePuntos = (next: RumpLandmarks) => {
+    setPuntos(next);
+    if (imageSize) onChange({ puntos: next, ...measureRump(next, imageSize) });
+  };
+
+  const handleTap = (event: React.MouseEvent<HTMLDivElement>) => {
+    if (puntos || !imageSize) return;
+    const bounds = event.currentTarget.getBoundingClientRect();
+    const point = clampPoint({
+      x: (event.clientX - bounds.left) / bounds.width,
+      y: (event.clientY - bounds.top) / bounds.height,
+    });
+
+    if (!coxal) {
+      setCoxal(point);
+    } else {
+      updatePuntos({ coxal, isquiatica: point });
+    }
+  };
+
+  const reset = () => {
+    setCoxal(null);
+    setPuntos(null);
+    onChange(null);
+  };
+
+  const step = puntos ? 2 : coxal ? 1 : 0;
+  const size = imageSize ? Math.max(imageSize.width, imageSize.height) : 0;
+
+  return (
+    <div className="space-y-3">
+      <div
+        className="relative w-full overflow-hidden rounded-lg cursor-crosshair"
+        onClick={handleTap}
+      >
+        <img
+          src={imageUrl}
+          alt="Foto para medir el anca"
+          className="w-full h-auto block select-none"
+          draggable={false}
+          onLoad={(e) => setImageSize({ width: e.currentTarget.naturalWidth, height: e.currentTarget.naturalHeight })}
+        />
+        {imageSize && puntos && (
+          <RumpLandmarksOverlay
+            landmarks={puntos}
+            width={imageSize.width}
+            height={imageSize.height}
+            angulo={measureRump(puntos, imageSize).anguloGrados}
+            onChange={updatePuntos}
+          />
+        )}
+        {imageSize && coxal && !puntos && (
+          <svg
+            viewBox={`0 0 ${imageSize.width} ${imageSize.height}`}
+            className="absolute inset-0 w-full h-full pointer-events-none"
+          >
+            <circle
+              cx={coxal.x * imageSize.width}
+              cy={coxal.y * imageSize.height}
+              r={size * 0.022}
+              fill="#6C7E49"
+              fillOpacity={0.85}
+              stroke="#FBF5E9"
+              strokeWidth={2}
+              vectorEffect="non-scaling-stroke"
+            />
+          </svg>
+        )}
+      </div>
+
+      <div className="flex items-center justify-between gap-2 font-inter text-sm text-[#5A5751]">
+        <span>{HINTS[step]}</span>
+        {step > 0 && (
+          <Button variant="ghost" size="sm" onClick={reset} className="text-[#7A4E32]">
+            <RotateCcw className="w-4 h-4 mr-1" />
+            Reiniciar
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,120 @@
+import { useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import { es } from 'date-fns/locale';
+import { AlertTriangle, Clock, Loader2, RotateCcw, Trash2, WifiOff } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { MANUAL_MODEL } from '@/lib/analyses';
+import type { PendingAnalysis } from '@/lib/offline-queue';
+
+type PendingAnalysesProps = {
+  items: PendingAnalysis[];
+  isOnline: boolean;
+  // Mientras se envía la cola no se puede reintentar una foto suelta
+  isSending: boolean;
+  onRetry: (item: PendingAnalysis) => void;
+  onRemove: (item: PendingAnalysis) => void;
+};
+
+// Miniatura desde el archivo guardado en el dispositivo; la URL se libera al desmontar
+const PendingThumbnail = ({ file }: { file: File }) => {
+  const [url, setUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    const objectUrl = URL.createObjectURL(file);
+    setUrl(objectUrl);
+    return () => URL.revokeObjectURL(objectUrl);
+  }, [file]);
+
+  return url ? (
+    <img src={url} alt="Foto pendiente" className="w-14 h-14 rounded-md object-cover shrink-0" />
+  ) : (
+    <div className="w-14 h-14 rounded-md bg-[#EAD9C3] shrink-0" />
+  );
+};
+
+const PendingStatusLabel = ({ item, isOnline }: { item: PendingAnalysis; isOnline: boolean }) => {
+  if (item.status === 'enviando') {
+    return (
+      <span className="flex items-center gap-1 text-[#6C7E49]">
+        <Loader2 className="w-3 h-3 animate-spin" />
+        Enviando...
+      </span>
+    );
+  }
+  if (item.status === 'error') {
+    return (
+      <span className="flex items-start gap-1 text-[#C35E38]">
+        <AlertTriangle className="w-3 h-3 mt-0.5 shrink-0" />
+        {item.error ?? 'No se pudo enviar'}
+      </span>
+    );
+  }
+  return (
+    <span className="flex items-center gap-1 text-[#5A5751]">
+      <Clock className="w-3 h-3" />
+      {isOnline ? 'En cola para enviar' : 'Esperando conexión'}
+    </span>
+  );
+};
+
+// Fotos tomadas sin señal que esperan ser analizadas
+export const PendingAnalyses = ({ items, isOnline, isSending, onRetry, onRemove }: PendingAnalysesProps) => {
+  if (items.length === 0) return null;
+
+  return (
+    <Card className="w-full">
+      <CardContent className="p-4 space-y-3 font-inter">
+        <div className="flex items-center justify-between">
+          <h2 className="font-serif font-bold text-[#404335]">Pendientes ({items.length})</h2>
+          {!isOnline && (
+            <span className="flex items-center gap-1 text-xs text-[#5A5751]">
+              <WifiOff className="w-4 h-4" />
+              Sin conexión
+            </span>
+          )}
+        </div>
+
+        {items.map((item) => (
+          <div key={item.id} className="flex items-center gap-3">
+            <PendingThumbnail file={item.file} />
+            <div className="flex-1 min-w-0 text-sm">
+              <div className="text-[#404335] font-medium">
+                {item.earTag ? `Arete ${item.earTag}` : 'Sin arete'}
+                {item.resultado?.modelo === MANUAL_MODEL && ' · Medición manual'}
+                <span className="ml-2 font-normal text-xs text-muted-foreground">
+                  {format(new Date(item.createdAt), "d MMM, HH:mm", { locale: es })}
+                </span>
+              </div>
+              <div className="text-xs">
+                <PendingStatusLabel item={item} isOnline={isOnline} />
+              </div>
+            </div>
+            {item.status === 'error' && (
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => onRetry(item)}
+                disabled={!isOnline || isSending}
+                className="text-[#7A4E32]"
+                aria-label="Reintentar envío"
+              >
+                <RotateCcw className="w-4 h-4" />
+              </Button>
+            )}
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => onRemove(item)}
+              disabled={item.status === 'enviando'}
+              className="text-[#5A5751]"
+              aria-label="Descartar foto pendiente"
+            >
+              <Trash2 className="w-4 h-4" />
+            </Button>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+};
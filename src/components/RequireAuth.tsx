@@ -0,0 +1,90 @@
+import { useState } from 'react';
+import { Navigate, Outlet } from 'react-router-dom';
+import { Loader2 } from 'lucide-react';
+import { Card, CardContent } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Button } from '@/components/ui/button';
+import { useAuth } from '@/hooks/use-auth';
+import { useCreateFarm, useFarm } from '@/hooks/use-farm';
+import { useToast } from '@/hooks/use-toast';
+
+const FullScreenLoader = () => (
+  <div className="min-h-screen flex items-center justify-center bg-[#FBF5E9]">
+    <Loader2 className="w-8 h-8 animate-spin text-[#7A4E32]" />
+  </div>
+);
+
+// Primer acceso: el usuario aún no pertenece a ninguna granja
+const FarmSetup = () => {
+  const [name, setName] = useState('');
+  const createFarm = useCreateFarm();
+  const { selectFarm } = useFarm();
+  const { signOut } = useAuth();
+  const { toast } = useToast();
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!name.trim()) return;
+
+    createFarm.mutate(name.trim(), {
+      onSuccess: (farm) => selectFarm(farm.id),
+      onError: (err) => {
+        console.error('Error creating farm:', err);
+        toast({
+          title: "Error",
+          description: "No se pudo crear la granja",
+          variant: "destructive",
+        });
+      },
+    });
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-b from-[#EAD9C3] to-[#FBF5E9] flex items-center justify-center p-6">
+      <Card className="w-full max-w-sm">
+        <CardContent className="p-6">
+          <form onSubmit={handleSubmit} className="space-y-4 font-inter">
+            <div className="space-y-1">
+              <h2 className="text-xl font-serif font-bold text-[#404335]">Crea tu granja</h2>
+              <p className="text-sm text-[#5A5751]">
+                Tus vacas, fotos y análisis quedarán asociados a esta granja.
+              </p>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="farm-name">Nombre de la granja</Label>
+              <Input
+                id="farm-name"
+                placeholder="Ej: Hacienda La Esperanza"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                required
+              />
+            </div>
+            <Button
+              type="submit"
+              disabled={createFarm.isPending}
+              className="w-full bg-[#6C7E49] hover:bg-[#5d6e3c] text-[#FBF5E9] py-6 text-lg rounded-xl"
+            >
+              {createFarm.isPending ? <Loader2 className="w-5 h-5 animate-spin" /> : 'Crear granja'}
+            </Button>
+            <Button type="button" variant="link" onClick={() => signOut()} className="w-full text-[#7A4E32]">
+              Cerrar sesión
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export const RequireAuth = () => {
+  const { session, isLoading } = useAuth();
+  const { farm, isLoading: isLoadingFarm } = useFarm();
+
+  if (isLoading || isLoadingFarm) return <FullScreenLoader />;
+  if (!session) return <Navigate to="/login" replace />;
+  if (!farm) return <FarmSetup />;
+
+  return <Outlet />;
+};
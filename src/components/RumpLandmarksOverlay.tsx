@@ -0,0 +1,124 @@
+import { useRef, useState } from 'react';
+import type { RumpLandmarks } from '@/lib/analyses';
+import { clampPoint } from '@/lib/geometry';
+import { cn } from '@/lib/utils';
+
+type Landmark = keyof RumpLandmarks;
+
+type RumpLandmarksOverlayProps = {
+  landmarks: RumpLandmarks;
+  // Tamaño natural de la foto, para que los puntos no se deformen al escalar
+  width: number;
+  height: number;
+  angulo?: number | null;
+  // Si se indica, los puntos se pueden arrastrar para corregirlos
+  onChange?: (landmarks: RumpLandmarks) => void;
+};
+
+// Dibuja sobre la foto los puntos coxal e isquiático, la línea del anca y la horizontal de referencia
+export const RumpLandmarksOverlay = ({ landmarks, width, height, angulo, onChange }: RumpLandmarksOverlayProps) => {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const [dragging, setDragging] = useState<Landmark | null>(null);
+  const editable = !!onChange;
+
+  const coxal = { x: landmarks.coxal.x * width, y: landmarks.coxal.y * height };
+  const isquiatica = { x: landmarks.isquiatica.x * width, y: landmarks.isquiatica.y * height };
+  const size = Math.max(width, height);
+  // Puntos más grandes al editar para poder tomarlos con el dedo
+  const radius = size * (editable ? 0.022 : 0.012);
+  const fontSize = size * 0.03;
+
+  // La horizontal parte del coxal hacia el lado del isquion y lo sobrepasa un poco
+  const direction = isquiatica.x >= coxal.x ? 1 : -1;
+  const horizontalEnd = coxal.x + direction * Math.max(Math.abs(isquiatica.x - coxal.x) * 1.2, size * 0.05);
+
+  const handlePointerDown = (landmark: Landmark) => (event: React.PointerEvent<SVGCircleElement>) => {
+    if (!editable) return;
+    event.preventDefault();
+    svgRef.current?.setPointerCapture(event.pointerId);
+    setDragging(landmark);
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<SVGSVGElement>) => {
+    if (!dragging || !svgRef.current) return;
+    const bounds = svgRef.current.getBoundingClientRect();
+    const point = clampPoint({
+      x: (event.clientX - bounds.left) / bounds.width,
+      y: (event.clientY - bounds.top) / bounds.height,
+    });
+    onChange?.({ ...landmarks, [dragging]: point });
+  };
+
+  const handlePointerUp = (event: React.PointerEvent<SVGSVGElement>) => {
+    if (svgRef.current?.hasPointerCapture(event.pointerId)) {
+      svgRef.current.releasePointerCapture(event.pointerId);
+    }
+    setDragging(null);
+  };
+
+  const renderPoint = (landmark: Landmark, point: { x: number; y: number }, fill: string, label: string) => (
+    <circle
+      cx={point.x}
+      cy={point.y}
+      r={radius}
+      fill={fill}
+      fillOpacity={editable ? 0.85 : 1}
+      stroke="#FBF5E9"
+      strokeWidth={2}
+      vectorEffect="non-scaling-stroke"
+      onPointerDown={handlePointerDown(landmark)}
+      className={editable ? 'pointer-events-auto cursor-grab touch-none' : undefined}
+      aria-label={label}
+    />
+  );
+
+  return (
+    <svg
+      ref={svgRef}
+      viewBox={`0 0 ${width} ${height}`}
+      className={cn('absolute inset-0 w-full h-full', dragging ? 'pointer-events-auto touch-none' : 'pointer-events-none')}
+      aria-label="Puntos anatómicos del anca"
+      role="img"
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={handlePointerUp}
+    >
+      <line
+        x1={coxal.x}
+        y1={coxal.y}
+        x2={horizontalEnd}
+        y2={coxal.y}
+        stroke="#FBF5E9"
+        strokeWidth={2}
+        strokeDasharray="6 4"
+        vectorEffect="non-scaling-stroke"
+      />
+      <line
+        x1={coxal.x}
+        y1={coxal.y}
+        x2={isquiatica.x}
+        y2={isquiatica.y}
+        stroke="#C35E38"
+        strokeWidth={3}
+        vectorEffect="non-scaling-stroke"
+      />
+      {renderPoint('coxal', coxal, '#6C7E49', 'Tuberosidad coxal')}
+      {renderPoint('isquiatica', isquiatica, '#7A4E32', 'Tuberosidad isquiática')}
+      {angulo != null && (
+        <text
+          x={horizontalEnd}
+          y={coxal.y - radius * 1.5}
+          fontSize={fontSize}
+          textAnchor={direction > 0 ? 'end' : 'start'}
+          fill="#FBF5E9"
+          stroke="#404335"
+          strokeWidth={fontSize * 0.15}
+          paintOrder="stroke"
+          className="font-inter font-semibold"
+        >
+          {angulo}°
+        </text>
+      )}
+    </svg>
+  );
+};
@@ -1,39 +1,84 @@
 import { useState, useRef } from 'react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent } from '@/components/ui/card';
-import { Camera, Upload, Loader2, ArrowLeft } from 'lucide-react';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Camera, Upload, Loader2, ArrowLeft, List, BarChart3, LogOut, Move, Ruler, AlertTriangle } from 'lucide-react';
 import { motion } from 'framer-motion';
+import { Link } from 'react-router-dom';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
+import { useCows } from '@/hooks/use-cows';
+import { useAuth } from '@/hooks/use-auth';
+import { useFarm } from '@/hooks/use-farm';
+import { CowDetections } from '@/components/CowDetections';
+import { ManualMeasurement, type ManualResult } from '@/components/ManualMeasurement';
+import { GuidedCamera } from '@/components/GuidedCamera';
+import { PendingAnalyses } from '@/components/PendingAnalyses';
+import { requestOrientationPermission } from '@/hooks/use-device-level';
+import { usePendingAnalyses } from '@/hooks/use-pending-analyses';
+import {
+  ANALYSIS_PROMPT,
+  analyzedCowNumber,
+  assignAnalysisCow,
+  manualAnalysisResult,
+  parseAnalysisResult,
+  saveAnalyses,
+  saveAnalysisCorrection,
+  type AnalysisCorrection,
+  type AnalysisResult,
+  type AnalysisRow,
+  type RumpLandmarks,
+} from '@/lib/analyses';
+import { measureRump, type ImageSize } from '@/lib/geometry';
+import { CATEGORY_COLORS, isCategoria } from '@/lib/rump-scale';
+import { uploadImage } from '@/lib/storage';
+import { describeSavings, prepareImage, type PreparedImage } from '@/lib/image-pipeline';
+import { isHeic } from '@/lib/heic';
+import { checkPhotoQuality, type QualityIssue } from '@/lib/photo-quality';
+import { formatRetryAfter, isNetworkError, readFunctionError } from '@/lib/functions';
 import logo from '@/assets/Logo.png';
 import vacaImage from '@/assets/vaca.png';
 
-type AnalysisResult = {
-  valido: boolean;
-  razonInvalidez?: string;
-  numeroVacasDetectadas?: number;
-  vacaAnalizada?: number;
-  anguloCm?: number;
-  puntajeLineal?: number;
-  categoria?: 'Alto' | 'Nivelado' | 'Ligera caída' | 'Intermedio' | 'Pronunciada';
-  recomendacion?: string;
-};
-
 type Screen = 'home' | 'preview' | 'result';
 
 export const RumpexHome = () => {
   const [currentScreen, setCurrentScreen] = useState<Screen>('home');
   const [selectedImage, setSelectedImage] = useState<string | null>(null);
+  const [selectedFile, setSelectedFile] = useState<File | null>(null);
+  const [preparedImage, setPreparedImage] = useState<PreparedImage | null>(null);
+  const [isPreparingImage, setIsPreparingImage] = useState(false);
+  const [isCameraOpen, setIsCameraOpen] = useState(false);
+  // Problemas de la foto detectados en el dispositivo antes de llamar a la IA
+  const [qualityIssues, setQualityIssues] = useState<QualityIssue[]>([]);
   const [analysisResult, setAnalysisResult] = useState<AnalysisResult | null>(null);
   const [isAnalyzing, setIsAnalyzing] = useState(false);
+  const [earTag, setEarTag] = useState('');
+  const [savedAnalyses, setSavedAnalyses] = useState<AnalysisRow[]>([]);
+  const [selectedCow, setSelectedCow] = useState<number | null>(null);
+  const [assignedTags, setAssignedTags] = useState<Record<number, string>>({});
+  const [assignTag, setAssignTag] = useState('');
+  const [isAssigning, setIsAssigning] = useState(false);
+  // Mediciones corregidas a mano por vaca detectada; saved indica si ya están en el historial
+  const [corrections, setCorrections] = useState<Record<number, AnalysisCorrection & { saved: boolean }>>({});
+  const [isEditingLandmarks, setIsEditingLandmarks] = useState(false);
+  const [isSavingCorrection, setIsSavingCorrection] = useState(false);
+  // Medición manual en la vista previa, sin llamar a la IA
+  const [isManualMode, setIsManualMode] = useState(false);
+  const [manualResult, setManualResult] = useState<ManualResult | null>(null);
+  const [isSavingManual, setIsSavingManual] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
   const cameraInputRef = useRef<HTMLInputElement>(null);
   const { toast } = useToast();
+  const { data: cows } = useCows();
+  const { signOut } = useAuth();
+  const { farm } = useFarm();
+  const pending = usePendingAnalyses();
 
-  const validateAndProcessImage = (file: File) => {
+  const validateAndProcessImage = async (file: File) => {
     // Verificar tipo MIME soportado según documentación de Gemini
     const supportedTypes = ['image/png', 'image/jpeg', 'image/webp', 'image/heic', 'image/heif'];
-    if (!supportedTypes.includes(file.type)) {
+    if (!supportedTypes.includes(file.type) && !isHeic(file)) {
       toast({
         title: "Formato no soportado",
         description: "Por favor usa archivos PNG, JPEG, WEBP, HEIC o HEIF",
@@ -54,12 +99,47 @@ export const RumpexHome = () => {
       return false;
     }
 
+    // Enderezar, reducir y recomprimir antes de mostrar y subir
+    setIsPreparingImage(true);
+    let prepared: PreparedImage;
+    try {
+      prepared = await prepareImage(file);
+    } catch (prepareError) {
+      console.error('Error preparing image:', prepareError);
+      prepared = { file, width: 0, height: 0, originalBytes: file.size, bytes: file.size, processed: false };
+    } finally {
+      setIsPreparingImage(false);
+    }
+
+    // Sin convertir, la HEIC se vería rota en la vista previa
+    if (!prepared.processed && isHeic(file)) {
+      toast({
+        title: "No se pudo abrir la foto HEIC",
+        description: "Conviértela a JPEG o configura la cámara del iPhone en \"Más compatible\" y vuelve a intentarlo",
+        variant: "destructive",
+      });
+      return false;
+    }
+
+    let issues: QualityIssue[] = [];
+    if (prepared.processed) {
+      try {
+        issues = await checkPhotoQuality(prepared);
+      } catch (qualityError) {
+        // La revisión es solo una ayuda: si falla, se deja pasar la foto
+        console.warn('Photo quality check failed:', qualityError);
+      }
+    }
+
     const reader = new FileReader();
     reader.onload = (e) => {
       setSelectedImage(e.target?.result as string);
+      setSelectedFile(prepared.file);
+      setPreparedImage(prepared);
+      setQualityIssues(issues);
       setCurrentScreen('preview');
     };
-    reader.readAsDataURL(file);
+    reader.readAsDataURL(prepared.file);
     return true;
   };
 
@@ -72,6 +152,26 @@ export const RumpexHome = () => {
     event.target.value = '';
   };
 
+  // Cámara guiada de la app; sin getUserMedia se usa directamente la cámara del sistema
+  const openCamera = () => {
+    if (!navigator.mediaDevices?.getUserMedia) {
+      cameraInputRef.current?.click();
+      return;
+    }
+    void requestOrientationPermission();
+    setIsCameraOpen(true);
+  };
+
+  const handleGuidedCapture = (file: File) => {
+    setIsCameraOpen(false);
+    validateAndProcessImage(file);
+  };
+
+  const openSystemCamera = () => {
+    setIsCameraOpen(false);
+    cameraInputRef.current?.click();
+  };
+
   const handleGallerySelect = (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
     if (file) {
@@ -81,70 +181,238 @@ export const RumpexHome = () => {
     event.target.value = '';
   };
 
+  // Resolver el arete ingresado a una vaca del registro; null si el arete no existe
+  const resolveEarTag = () => {
+    const tag = earTag.trim();
+    const cow = tag ? cows?.find((c) => c.ear_tag === tag) : undefined;
+    if (tag && !cow) {
+      toast({
+        title: "Arete no registrado",
+        description: `No existe una vaca con el arete ${tag}. Regístrala en "Mis Vacas" o deja el campo vacío`,
+        variant: "destructive",
+      });
+      return null;
+    }
+    return { cow };
+  };
+
+  const saveManualMeasurement = async () => {
+    if (!selectedFile || !manualResult) return;
+
+    const resolved = resolveEarTag();
+    if (!resolved) return;
+    const { cow } = resolved;
+
+    const resultado = manualAnalysisResult(manualResult.puntos, manualResult);
+
+    // En el establo sin cobertura la medición no se pierde: queda en pendientes con su resultado
+    // y se sube y guarda sola al volver la señal
+    const queueForLater = async (imagePath: string | null = null) => {
+      try {
+        await pending.enqueue({
+          farmId: farm.id,
+          file: selectedFile,
+          imagePath,
+          resultado,
+          earTag: cow?.ear_tag ?? null,
+          cowId: cow?.id ?? null,
+          lactationNumber: cow?.lactation_number ?? null,
+        });
+        toast({
+          title: "Sin conexión",
+          description: "La medición quedó en pendientes y se guardará cuando vuelva la señal",
+        });
+        resetToHome();
+      } catch (queueError) {
+        console.error('Error queueing manual measurement:', queueError);
+        toast({
+          title: "No se pudo guardar",
+          description: "No hay conexión y no se pudo guardar la medición en el dispositivo",
+          variant: "destructive",
+        });
+      }
+    };
+
+    if (!navigator.onLine) {
+      await queueForLater();
+      return;
+    }
+
+    setIsSavingManual(true);
+    let imagePath: string | null = null;
+    try {
+      imagePath = await uploadImage(selectedFile, farm.id);
+      await saveAnalyses(resultado, {
+        farmId: farm.id,
+        imagePath,
+        cowId: cow?.id ?? null,
+        lactationNumber: cow?.lactation_number ?? null,
+      });
+      toast({
+        title: "Medición guardada",
+        description: "La medición manual quedó registrada en el historial",
+      });
+    } catch (saveError) {
+      console.error('Error saving manual measurement:', saveError);
+      // Si la foto alcanzó a subirse, el envío desde la cola no la vuelve a subir
+      if (isNetworkError(saveError)) {
+        await queueForLater(imagePath);
+        return;
+      }
+      toast({
+        title: "No se pudo guardar",
+        description: "Revisa tu conexión. La medición sigue en pantalla",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSavingManual(false);
+    }
+  };
+
   const analyzeImage = async () => {
-    if (!selectedImage) return;
+    if (!selectedFile) return;
+
+    const resolved = resolveEarTag();
+    if (!resolved) return;
+    const { cow } = resolved;
+
+    // Sin señal la foto se guarda en el dispositivo y se analiza sola al volver la conexión
+    const queueForLater = async (imagePath: string | null = null) => {
+      try {
+        await pending.enqueue({
+          farmId: farm.id,
+          file: selectedFile,
+          imagePath,
+          earTag: cow?.ear_tag ?? null,
+          cowId: cow?.id ?? null,
+          lactationNumber: cow?.lactation_number ?? null,
+        });
+        toast({
+          title: "Sin conexión",
+          description: "La foto quedó en pendientes y se analizará cuando vuelva la señal",
+        });
+        resetToHome();
+      } catch (queueError) {
+        console.error('Error queueing analysis:', queueError);
+        toast({
+          title: "Error",
+          description: "No hay conexión y no se pudo guardar la foto en el dispositivo",
+          variant: "destructive",
+        });
+      }
+    };
+
+    if (!navigator.onLine) {
+      await queueForLater();
+      return;
+    }
 
     setIsAnalyzing(true);
     try {
+      let imagePath: string;
+      try {
+        imagePath = await uploadImage(selectedFile, farm.id);
+      } catch (uploadError) {
+        console.error('Error uploading image:', uploadError);
+        // Con señal débil el teléfono dice estar en línea pero la subida no llega: también va a la cola
+        if (isNetworkError(uploadError)) {
+          await queueForLater();
+          return;
+        }
+        toast({
+          title: "Error",
+          description: "No se pudo subir la imagen. Revisa tu conexión e inténtalo de nuevo",
+          variant: "destructive",
+        });
+        return;
+      }
+
       const { data, error } = await supabase.functions.invoke('analyze-image', {
         body: {
-          image: selectedImage,
-          prompt: `Eres un experto veterinario especializado en conformación bovina. Analiza esta imagen de una vaca lechera y evalúa ESPECÍFICAMENTE el ángulo de su anca (rump angle).
-
-PROCESO DE ANÁLISIS TÉCNICO:
-1. VALIDACIÓN: Confirma que la imagen contiene una vaca lechera vista de perfil lateral
-2. IDENTIFICACIÓN ANATÓMICA: Localiza exactamente:
-   - Tuberosidad coxal (hueso de la cadera/pin bone)
-   - Tuberosidad isquiática (pin bone/isquion)
-   - Línea dorsal del anca
-3. MEDICIÓN PRECISA: Mide el ángulo entre la línea horizontal y la línea que conecta estos puntos anatómicos
-4. EVALUACIÓN CRÍTICA: Analiza la conformación real de ESTA vaca específica
-
-ESCALA DE PUNTUACIÓN LINEAL (1-9):
-- 1-2: Anca muy caída (>35°) - Defecto severo
-- 3-4: Anca pronunciadamente caída (25-35°) - Defecto moderado  
-- 5-6: Anca intermedia/ligera caída (15-25°) - Aceptable
-- 7-8: Anca nivelada/alta (5-15°) - Deseable
-- 9: Anca muy alta (<5°) - Excelente
-
-ANÁLISIS DIFERENCIAL OBLIGATORIO:
-- Considera la raza, edad aparente, posición de la vaca
-- Evalúa la calidad ósea y muscular del área
-- NO uses valores por defecto - cada vaca es única
-- Sé crítico y preciso en tu evaluación
-
-Devuelve ÚNICAMENTE este JSON con mediciones reales:
-{
-  "valido": boolean,
-  "razonInvalidez": "string detallada si no es válida",
-  "numeroVacasDetectadas": number,
-  "vacaAnalizada": number,
-  "anguloCm": number (ángulo real medido),
-  "puntajeLineal": number (1-9, basado en medición real),
-  "categoria": "Alto" | "Nivelado" | "Ligera caída" | "Intermedio" | "Pronunciada",
-  "recomendacion": "string con análisis técnico específico de esta vaca"
-}`
+          imagePath,
+          farmId: farm.id,
+          ...ANALYSIS_PROMPT,
         }
       });
 
       if (error) {
         console.error('Error calling function:', error);
+        // La foto ya está subida: al reintentar desde la cola no se vuelve a subir
+        if (isNetworkError(error)) {
+          await queueForLater(imagePath);
+          return;
+        }
+        const details = await readFunctionError(error);
+        // Distinguir una respuesta defectuosa del modelo de una foto no válida
+        if (details.code === 'RATE_LIMITED') {
+          toast({
+            title: "Vas muy rápido",
+            description: `Hiciste muchos análisis seguidos. Espera ${formatRetryAfter(details.retryAfter)} y vuelve a intentarlo`,
+          });
+          return;
+        }
+        if (details.code === 'QUOTA_EXCEEDED') {
+          toast({
+            title: "Límite mensual alcanzado",
+            description: `Tu granja usó todos los análisis de este mes. Podrás analizar de nuevo en ${formatRetryAfter(details.retryAfter)}`,
+            variant: "destructive",
+          });
+          return;
+        }
+        if (details.code === 'UNSUPPORTED_MEDIA_TYPE') {
+          toast({
+            title: "Formato no soportado",
+            description: "Por favor usa archivos PNG, JPEG, WEBP, HEIC o HEIF",
+            variant: "destructive",
+          });
+          return;
+        }
+        if (details.code === 'MALFORMED_MODEL_RESPONSE') {
+          toast({
+            title: "Respuesta inválida del análisis",
+            description: "El modelo devolvió un resultado con formato incorrecto. Tu foto no es el problema, intenta analizarla de nuevo",
+            variant: "destructive",
+          });
+          return;
+        }
         toast({
           title: "Error",
-          description: "Error al analizar la imagen: " + error.message,
+          description: "Error al analizar la imagen: " + details.message,
           variant: "destructive",
         });
         return;
       }
 
       // Use the structured response from the edge function
-      setAnalysisResult(data as AnalysisResult);
+      const result = parseAnalysisResult(data);
+      const analyzedCow = analyzedCowNumber(result);
+      setAnalysisResult(result);
+      setSelectedCow(analyzedCow);
+      setAssignedTags(cow && analyzedCow != null ? { [analyzedCow]: cow.ear_tag } : {});
       setCurrentScreen('result');
       
       toast({
         title: "¡Análisis completo!",
         description: "La imagen ha sido analizada exitosamente",
       });
+
+      // Guardar la evaluación en el historial del rebaño
+      try {
+        const rows = await saveAnalyses(result, {
+          farmId: farm.id,
+          imagePath,
+          cowId: cow?.id ?? null,
+          lactationNumber: cow?.lactation_number ?? null,
+        });
+        setSavedAnalyses(rows);
+      } catch (saveError) {
+        console.error('Error saving analysis:', saveError);
+        toast({
+          title: "No se pudo guardar",
+          description: "El análisis se muestra pero no quedó registrado en el historial",
+          variant: "destructive",
+        });
+      }
     } catch (err) {
       console.error('Unexpected error:', err);
       toast({
@@ -160,33 +428,135 @@ Devuelve ÚNICAMENTE este JSON con mediciones reales:
   const resetToHome = () => {
     setCurrentScreen('home');
     setSelectedImage(null);
+    setSelectedFile(null);
+    setPreparedImage(null);
+    setQualityIssues([]);
     setAnalysisResult(null);
+    setEarTag('');
+    setSavedAnalyses([]);
+    setSelectedCow(null);
+    setAssignedTags({});
+    setAssignTag('');
+    setCorrections({});
+    setIsEditingLandmarks(false);
+    setIsManualMode(false);
+    setManualResult(null);
+  };
+
+  const toggleManualMode = () => {
+    setIsManualMode((current) => !current);
+    setManualResult(null);
+  };
+
+  // Recalcula ángulo y puntaje en el dispositivo mientras se arrastran los puntos
+  const handleLandmarksChange = (puntos: RumpLandmarks, size: ImageSize) => {
+    if (selectedCow == null) return;
+    setCorrections((current) => ({
+      ...current,
+      [selectedCow]: { puntos, ...measureRump(puntos, size), saved: false },
+    }));
   };
 
-  const getCategoryColor = (categoria?: string) => {
-    switch (categoria) {
-      case 'Alto':
-        return 'text-green-600'; // Excelente - Verde
-      case 'Nivelado':
-        return 'text-green-500'; // Muy bueno - Verde claro
-      case 'Ligera caída':
-        return 'text-yellow-500'; // Aceptable - Amarillo
-      case 'Intermedio':
-        return 'text-orange-500'; // Necesita atención - Naranja
-      case 'Pronunciada':
-        return 'text-red-600'; // Problemático - Rojo
-      default:
-        return 'text-foreground';
+  const discardCorrection = () => {
+    if (selectedCow != null) {
+      setCorrections(({ [selectedCow]: _discarded, ...rest }) => rest);
     }
+    setIsEditingLandmarks(false);
   };
 
+  const saveCorrection = async () => {
+    const correction = selectedCow != null ? corrections[selectedCow] : undefined;
+    if (!correction) return;
+
+    const analysis = savedAnalyses.find((row) => row.vaca_analizada === selectedCow);
+    if (!analysis) {
+      toast({
+        title: "Análisis no guardado",
+        description: "Esta evaluación no quedó en el historial, no se puede guardar la corrección",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setIsSavingCorrection(true);
+    try {
+      const { saved: _saved, ...values } = correction;
+      await saveAnalysisCorrection(analysis.id, values);
+      setCorrections((current) => ({ ...current, [selectedCow]: { ...correction, saved: true } }));
+      setIsEditingLandmarks(false);
+      toast({
+        title: "Corrección guardada",
+        description: "Se registró la medición corregida junto a la del análisis automático",
+      });
+    } catch (correctionError) {
+      console.error('Error saving correction:', correctionError);
+      toast({
+        title: "Error",
+        description: "No se pudo guardar la corrección. Inténtalo de nuevo",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSavingCorrection(false);
+    }
+  };
+
+  // Asigna la vaca detectada seleccionada a un arete del registro
+  const assignSelectedCow = async () => {
+    const analysis = savedAnalyses.find((row) => row.vaca_analizada === selectedCow);
+    if (selectedCow == null || !analysis) {
+      toast({
+        title: "Análisis no guardado",
+        description: "Esta evaluación no quedó en el historial, no se puede asignar un arete",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const tag = assignTag.trim();
+    const cow = tag ? cows?.find((c) => c.ear_tag === tag) : undefined;
+    if (tag && !cow) {
+      toast({
+        title: "Arete no registrado",
+        description: `No existe una vaca con el arete ${tag}. Regístrala en "Mis Vacas"`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setIsAssigning(true);
+    try {
+      await assignAnalysisCow(analysis.id, cow ?? null);
+      setAssignedTags((current) => {
+        const { [selectedCow]: _previous, ...rest } = current;
+        return cow ? { ...rest, [selectedCow]: cow.ear_tag } : rest;
+      });
+      setAssignTag('');
+      toast({
+        title: cow ? "Vaca asignada" : "Asignación eliminada",
+        description: cow ? `La vaca #${selectedCow} quedó registrada con el arete ${cow.ear_tag}` : `La vaca #${selectedCow} ya no tiene arete`,
+      });
+    } catch (assignError) {
+      console.error('Error assigning cow:', assignError);
+      toast({
+        title: "Error",
+        description: "No se pudo asignar el arete. Inténtalo de nuevo",
+        variant: "destructive",
+      });
+    } finally {
+      setIsAssigning(false);
+    }
+  };
+
+  const getCategoryColor = (categoria?: string | null) =>
+    isCategoria(categoria) ? CATEGORY_COLORS[categoria].text : 'text-foreground';
+
   // Home Screen
   if (currentScreen === 'home') {
     return (
       <div className="min-h-screen bg-gradient-to-b from-[#EAD9C3] to-[#FBF5E9] flex flex-col">
         {/* Navbar */}
         <div className="bg-[#7A4E32] shadow-md p-4 sticky top-0 z-10">
-          <div className="flex items-center justify-center max-w-md mx-auto">
+          <div className="relative flex items-center justify-center max-w-md mx-auto">
             <div className="flex items-center">
               <div className="w-10 h-10 mr-3">
                 <img 
@@ -197,7 +567,19 @@ Devuelve ÚNICAMENTE este JSON con mediciones reales:
               </div>
               <h1 className="text-xl font-serif font-bold text-[#FBF5E9]">Rumpex AI</h1>
             </div>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => signOut()}
+              className="absolute right-0 text-[#FBF5E9] hover:bg-[#FBF5E9]/10"
+              aria-label="Cerrar sesión"
+            >
+              <LogOut className="w-5 h-5" />
+            </Button>
           </div>
+          {farm && (
+            <p className="text-center text-xs text-[#FBF5E9]/80 font-inter mt-1">{farm.name}</p>
+          )}
         </div>
 
         {/* Main Content */}
@@ -234,8 +616,9 @@ Devuelve ÚNICAMENTE este JSON con mediciones reales:
             <motion.button
               whileTap={{ scale: 0.95 }}
               whileHover={{ scale: 1.02 }}
-              onClick={() => cameraInputRef.current?.click()}
-              className="w-full bg-[#6C7E49] hover:bg-[#5d6e3c] text-[#FBF5E9] flex items-center justify-center gap-3 py-4 rounded-xl font-medium text-lg shadow-lg transition-colors active:scale-95"
+              onClick={openCamera}
+              disabled={isPreparingImage}
+              className="w-full bg-[#6C7E49] hover:bg-[#5d6e3c] disabled:bg-[#6C7E49]/50 text-[#FBF5E9] flex items-center justify-center gap-3 py-4 rounded-xl font-medium text-lg shadow-lg transition-colors active:scale-95"
             >
               <Camera size={24} />
               Tomar Foto
@@ -246,18 +629,51 @@ Devuelve ÚNICAMENTE este JSON con mediciones reales:
               whileTap={{ scale: 0.95 }}
               whileHover={{ scale: 1.02 }}
               onClick={() => fileInputRef.current?.click()}
-              className="w-full bg-[#7A4E32] hover:bg-[#6b4129] text-[#FBF5E9] flex items-center justify-center gap-3 py-4 rounded-xl font-medium text-lg shadow-lg transition-colors active:scale-95"
+              disabled={isPreparingImage}
+              className="w-full bg-[#7A4E32] hover:bg-[#6b4129] disabled:bg-[#7A4E32]/50 text-[#FBF5E9] flex items-center justify-center gap-3 py-4 rounded-xl font-medium text-lg shadow-lg transition-colors active:scale-95"
             >
               <Upload size={24} />
               Subir Imagen
             </motion.button>
+
+            {isPreparingImage && (
+              <div className="flex items-center justify-center gap-2 text-sm text-[#5A5751] font-inter">
+                <Loader2 className="w-4 h-4 animate-spin" />
+                Optimizando imagen...
+              </div>
+            )}
+
+            <PendingAnalyses
+              items={pending.items}
+              isOnline={pending.isOnline}
+              isSending={pending.isSending}
+              onRetry={pending.retry}
+              onRemove={pending.remove}
+            />
+
+            <div className="flex justify-center gap-6">
+              <Link
+                to="/vacas"
+                className="text-[#7A4E32] flex items-center justify-center gap-2 py-2 font-medium hover:underline"
+              >
+                <List size={20} />
+                Mis Vacas
+              </Link>
+              <Link
+                to="/rebano"
+                className="text-[#7A4E32] flex items-center justify-center gap-2 py-2 font-medium hover:underline"
+              >
+                <BarChart3 size={20} />
+                Rebaño
+              </Link>
+            </div>
           </div>
 
           {/* Input para galería */}
           <input
             ref={fileInputRef}
             type="file"
-            accept="image/png,image/jpeg,image/webp,image/heic,image/heif"
+            accept="image/png,image/jpeg,image/webp,image/heic,image/heif,.heic,.heif"
             onChange={handleGallerySelect}
             className="hidden"
             aria-label="Seleccionar imagen de galería"
@@ -267,12 +683,20 @@ Devuelve ÚNICAMENTE este JSON con mediciones reales:
           <input
             ref={cameraInputRef}
             type="file"
-            accept="image/png,image/jpeg,image/webp,image/heic,image/heif"
+            accept="image/png,image/jpeg,image/webp,image/heic,image/heif,.heic,.heif"
             capture="environment"
             onChange={handleCameraCapture}
             className="hidden"
             aria-label="Tomar foto con cámara"
           />
+
+          {isCameraOpen && (
+            <GuidedCamera
+              onCapture={handleGuidedCapture}
+              onCancel={() => setIsCameraOpen(false)}
+              onFallback={openSystemCamera}
+            />
+          )}
         </div>
       </div>
     );
@@ -310,16 +734,94 @@ Devuelve ÚNICAMENTE este JSON con mediciones reales:
         <div className="flex-1 flex flex-col p-4">
           <Card className="flex-1 mb-6">
             <CardContent className="p-4 h-full flex items-center justify-center">
-              <img 
-                src={selectedImage} 
-                alt="Vista previa" 
-                className="max-w-full max-h-full object-contain rounded-lg"
-              />
+              {isManualMode ? (
+                <ManualMeasurement imageUrl={selectedImage} onChange={setManualResult} />
+              ) : (
+                <img 
+                  src={selectedImage} 
+                  alt="Vista previa" 
+                  className="max-w-full max-h-full object-contain rounded-lg"
+                />
+              )}
             </CardContent>
           </Card>
 
+          {preparedImage?.processed && (
+            <p className="-mt-4 mb-4 text-center text-xs text-[#5A5751] font-inter">
+              Imagen optimizada para el envío: {describeSavings(preparedImage)}
+            </p>
+          )}
+
+          {/* Revisión local de la foto: mejor repetirla ahora que esperar un "no válida" de la IA */}
+          {qualityIssues.length > 0 && (
+            <Card className="mb-4 border-[#C35E38]/40 bg-[#C35E38]/5">
+              <CardContent className="p-4 space-y-3 font-inter">
+                {qualityIssues.map((qualityIssue) => (
+                  <div key={qualityIssue.check} className="flex gap-3">
+                    <AlertTriangle className="w-5 h-5 mt-0.5 shrink-0 text-[#C35E38]" />
+                    <div>
+                      <div className="font-medium text-[#404335]">{qualityIssue.titulo}</div>
+                      <div className="text-sm text-[#5A5751]">{qualityIssue.sugerencia}</div>
+                    </div>
+                  </div>
+                ))}
+              </CardContent>
+            </Card>
+          )}
+
+          {/* Resultado de la medición manual, calculado en el dispositivo */}
+          {manualResult && (
+            <Card className="mb-4">
+              <CardContent className="p-4 flex items-center gap-4">
+                <div className="text-5xl font-serif font-bold text-[#6C7E49]">{manualResult.puntajeLineal}</div>
+                <div className="flex-1 font-inter">
+                  <div className={`font-serif font-bold text-lg ${getCategoryColor(manualResult.categoria)}`}>
+                    {manualResult.categoria}
+                  </div>
+                  <div className="text-sm text-muted-foreground">Ángulo: {manualResult.anguloGrados}° · Medición manual</div>
+                </div>
+                <Button
+                  onClick={saveManualMeasurement}
+                  disabled={isSavingManual}
+                  className="bg-[#7A4E32] hover:bg-[#6b4129] text-[#FBF5E9]"
+                >
+                  {isSavingManual ? <Loader2 className="w-4 h-4 animate-spin" /> : 'Guardar'}
+                </Button>
+              </CardContent>
+            </Card>
+          )}
+
+          {/* Asignar vaca por arete */}
+          <div className="space-y-2 mb-4 font-inter">
+            <Label htmlFor="ear-tag" className="text-[#404335]">Arete de la vaca (opcional)</Label>
+            <Input
+              id="ear-tag"
+              list="ear-tags"
+              placeholder="Ej: 0452"
+              value={earTag}
+              onChange={(e) => setEarTag(e.target.value)}
+              className="bg-white"
+            />
+            <datalist id="ear-tags">
+              {cows?.map((cow) => (
+                <option key={cow.id} value={cow.ear_tag}>
+                  {cow.name ?? ''}
+                </option>
+              ))}
+            </datalist>
+          </div>
+
           {/* Action Buttons */}
           <div className="space-y-3">
+            <Button
+              variant="outline"
+              onClick={toggleManualMode}
+              className="w-full py-6 rounded-xl border-[#7A4E32] text-[#7A4E32] font-medium"
+            >
+              <Ruler className="w-5 h-5 mr-2" />
+              {isManualMode ? 'Cancelar medición manual' : 'Medir a mano (sin IA)'}
+            </Button>
+
             <motion.button
               whileTap={{ scale: 0.95 }}
               whileHover={{ scale: 1.02 }}
@@ -333,6 +835,8 @@ Devuelve ÚNICAMENTE este JSON con mediciones reales:
                   <Loader2 className="w-6 h-6 animate-spin" />
                   Analizando...
                 </>
+              ) : qualityIssues.length > 0 ? (
+                'Analizar de todas formas'
               ) : (
                 'Analizar Imagen'
               )}
@@ -344,7 +848,7 @@ Devuelve ÚNICAMENTE este JSON con mediciones reales:
               onClick={resetToHome}
               className="w-full bg-[#7A4E32] hover:bg-[#6b4129] text-[#FBF5E9] flex items-center justify-center gap-3 py-4 rounded-xl font-medium text-lg shadow-lg transition-colors"
             >
-              Cambiar Imagen
+              {qualityIssues.length > 0 ? 'Tomar otra foto' : 'Cambiar Imagen'}
             </motion.button>
           </div>
         </div>
@@ -354,6 +858,15 @@ Devuelve ÚNICAMENTE este JSON con mediciones reales:
 
   // Result Screen
   if (currentScreen === 'result' && analysisResult) {
+    const detections = analysisResult.vacas ?? [];
+    const selectedDetection = detections.find((vaca) => vaca.numero === selectedCow);
+    const correction = selectedCow != null ? corrections[selectedCow] : undefined;
+    const aiResult = selectedDetection ?? analysisResult;
+    const shown = correction ?? aiResult;
+    const landmarks = correction?.puntos ?? selectedDetection?.puntosAnatomicos;
+    const hasBoxes = detections.some((vaca) => vaca.boundingBox);
+    const showPhoto = !!selectedImage && (hasBoxes || !!selectedDetection?.puntosAnatomicos);
+
     return (
       <div className="min-h-screen bg-gradient-to-b from-[#EAD9C3] to-[#FBF5E9] flex flex-col">
         {/* Header */}
@@ -396,21 +909,119 @@ Devuelve ÚNICAMENTE este JSON con mediciones reales:
             </Card>
           ) : (
             <>
+              {/* Vacas detectadas: tocar una para ver su resultado y dónde se midió el anca */}
+              {(showPhoto || detections.length > 1) && (
+                <Card>
+                  <CardContent className="p-4 space-y-3">
+                    {showPhoto && (
+                      <CowDetections
+                        imageUrl={selectedImage}
+                        vacas={detections}
+                        selected={selectedCow}
+                        onSelect={setSelectedCow}
+                        labels={assignedTags}
+                        landmarks={landmarks}
+                        angulo={shown.anguloGrados}
+                        onLandmarksChange={isEditingLandmarks ? handleLandmarksChange : undefined}
+                      />
+                    )}
+                    {landmarks && (
+                      <div className="flex flex-wrap gap-x-4 gap-y-1 text-xs text-[#5A5751] font-inter">
+                        <span className="flex items-center gap-1">
+                          <span className="w-2.5 h-2.5 rounded-full bg-[#6C7E49]" /> Coxal (cadera)
+                        </span>
+                        <span className="flex items-center gap-1">
+                          <span className="w-2.5 h-2.5 rounded-full bg-[#7A4E32]" /> Isquion
+                        </span>
+                        <span className="flex items-center gap-1">
+                          <span className="w-4 border-t-2 border-[#C35E38]" /> Línea del anca
+                        </span>
+                      </div>
+                    )}
+                    {landmarks && showPhoto && (
+                      isEditingLandmarks ? (
+                        <div className="space-y-2">
+                          <p className="text-sm text-[#5A5751] font-inter">
+                            Arrastra los puntos sobre la cadera y el isquion. El ángulo y el puntaje se recalculan al moverlos
+                          </p>
+                          <div className="flex gap-2">
+                            <Button
+                              onClick={saveCorrection}
+                              disabled={!correction || correction.saved || isSavingCorrection}
+                              className="flex-1 bg-[#6C7E49] hover:bg-[#5d6e3c] text-[#FBF5E9]"
+                            >
+                              {isSavingCorrection ? <Loader2 className="w-4 h-4 animate-spin" /> : 'Guardar corrección'}
+                            </Button>
+                            <Button variant="outline" onClick={discardCorrection} disabled={isSavingCorrection}>
+                              Descartar
+                            </Button>
+                          </div>
+                        </div>
+                      ) : (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => setIsEditingLandmarks(true)}
+                          className="text-[#7A4E32]"
+                        >
+                          <Move className="w-4 h-4 mr-2" />
+                          Corregir puntos
+                        </Button>
+                      )
+                    )}
+                    {detections.length > 1 && (
+                      <div className="flex flex-wrap gap-2">
+                        {detections.map((vaca) => (
+                          <Button
+                            key={vaca.numero}
+                            size="sm"
+                            variant={vaca.numero === selectedCow ? 'default' : 'outline'}
+                            onClick={() => setSelectedCow(vaca.numero)}
+                            className={vaca.numero === selectedCow ? 'bg-[#6C7E49] hover:bg-[#5d6e3c]' : ''}
+                          >
+                            Vaca #{vaca.numero}
+                            {assignedTags[vaca.numero] && ` · ${assignedTags[vaca.numero]}`}
+                          </Button>
+                        ))}
+                      </div>
+                    )}
+                  </CardContent>
+                </Card>
+              )}
+
               {/* Score Card */}
               <Card className="shadow-lg">
                 <CardContent className="p-6 text-center">
                   <div className="text-7xl font-serif font-bold text-[#6C7E49] mb-2">
-                    {analysisResult.puntajeLineal}
+                    {shown.puntajeLineal}
                   </div>
                   <div className="text-sm text-[#5A5751] mb-2 font-inter">
                     Puntaje Lineal (1-9)
                   </div>
-                  <div className={`text-2xl font-serif font-bold ${getCategoryColor(analysisResult.categoria)}`}>
-                    {analysisResult.categoria}
+                  <div className={`text-2xl font-serif font-bold ${getCategoryColor(shown.categoria)}`}>
+                    {shown.categoria}
                   </div>
-                  {analysisResult.anguloCm && (
+                  {shown.anguloGrados != null && (
                     <div className="text-sm text-muted-foreground mt-2 font-inter">
-                      Ángulo: {analysisResult.anguloCm}°
+                      Ángulo: {shown.anguloGrados}°
+                    </div>
+                  )}
+                  {!correction && aiResult.diferenciaAlturaCm != null && (
+                    <div className="text-sm text-muted-foreground font-inter">
+                      Diferencia de altura cadera-isquion: {aiResult.diferenciaAlturaCm} cm
+                    </div>
+                  )}
+                  {manualResult && (
+                    <div className="text-xs text-[#5A5751] mt-3 font-inter">
+                      Medición manual: {manualResult.puntajeLineal} ({manualResult.anguloGrados}°)
+                    </div>
+                  )}
+                  {correction && (
+                    <div className="text-xs text-[#5A5751] mt-3 font-inter">
+                      {correction.saved ? 'Corrección manual guardada' : 'Corrección manual sin guardar'}
+                      {' · IA: '}
+                      {aiResult.puntajeLineal ?? '—'}
+                      {aiResult.anguloGrados != null && ` (${aiResult.anguloGrados}°)`}
                     </div>
                   )}
                 </CardContent>
@@ -428,15 +1039,53 @@ Devuelve ÚNICAMENTE este JSON con mediciones reales:
                     </div>
                     <div className="flex justify-between">
                       <span className="text-muted-foreground">Vaca analizada:</span>
-                      <span>#{analysisResult.vacaAnalizada}</span>
+                      <span>#{selectedCow ?? analyzedCowNumber(analysisResult)}</span>
                     </div>
+                    {selectedCow != null && (
+                      <div className="flex justify-between">
+                        <span className="text-muted-foreground">Arete:</span>
+                        <span>{assignedTags[selectedCow] ?? 'Sin asignar'}</span>
+                      </div>
+                    )}
                   </div>
 
-                  {analysisResult.recomendacion && (
+                  {selectedCow != null && savedAnalyses.length > 0 && (
+                    <div className="pt-4 border-t space-y-2">
+                      <Label htmlFor="assign-ear-tag" className="text-[#404335]">
+                        Asignar arete a la vaca #{selectedCow}
+                      </Label>
+                      <div className="flex gap-2">
+                        <Input
+                          id="assign-ear-tag"
+                          list="ear-tags"
+                          placeholder="Ej: 0452"
+                          value={assignTag}
+                          onChange={(e) => setAssignTag(e.target.value)}
+                          className="bg-white"
+                        />
+                        <Button
+                          onClick={assignSelectedCow}
+                          disabled={isAssigning}
+                          className="bg-[#7A4E32] hover:bg-[#6b4129] text-[#FBF5E9]"
+                        >
+                          {isAssigning ? <Loader2 className="w-4 h-4 animate-spin" /> : 'Asignar'}
+                        </Button>
+                      </div>
+                      <datalist id="ear-tags">
+                        {cows?.map((cow) => (
+                          <option key={cow.id} value={cow.ear_tag}>
+                            {cow.name ?? ''}
+                          </option>
+                        ))}
+                      </datalist>
+                    </div>
+                  )}
+
+                  {aiResult.recomendacion && (
                     <div className="pt-4 border-t">
                       <h4 className="font-serif font-semibold mb-2 text-[#404335]">Recomendación</h4>
                       <p className="text-sm text-muted-foreground font-inter leading-relaxed">
-                        {analysisResult.recomendacion}
+                        {aiResult.recomendacion}
                       </p>
                     </div>
                   )}
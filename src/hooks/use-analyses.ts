@@ -0,0 +1,45 @@
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useFarm } from '@/hooks/use-farm';
+
+export const useCowAnalyses = (cowId?: string) =>
+  useQuery({
+    queryKey: ['analyses', 'cow', cowId],
+    enabled: !!cowId,
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('analyses')
+        .select('*')
+        .eq('cow_id', cowId)
+        .eq('valido', true)
+        .order('created_at', { ascending: true });
+
+      if (error) throw error;
+      return data;
+    },
+  });
+
+type DateRange = {
+  from?: Date;
+  to?: Date;
+};
+
+// Conteos por puntaje y categoría calculados en la base: traer las filas quedaría cortado en 1000
+export const useHerdScoreCounts = ({ from, to }: DateRange) => {
+  const { farm } = useFarm();
+
+  return useQuery({
+    queryKey: ['analyses', 'herd', farm?.id, from?.toISOString(), to?.toISOString()],
+    enabled: !!farm,
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc('herd_score_counts', {
+        _farm_id: farm.id,
+        _from: from?.toISOString(),
+        _to: to?.toISOString(),
+      });
+
+      if (error) throw error;
+      return data;
+    },
+  });
+};
@@ -0,0 +1,75 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables, TablesInsert, TablesUpdate } from '@/integrations/supabase/types';
+import { useFarm } from '@/hooks/use-farm';
+
+export type Cow = Tables<'cows'>;
+export type CowInsert = Omit<TablesInsert<'cows'>, 'farm_id'>;
+export type CowUpdate = TablesUpdate<'cows'>;
+
+const COWS_KEY = ['cows'] as const;
+
+export const useCows = () => {
+  const { farm } = useFarm();
+
+  return useQuery({
+    queryKey: [...COWS_KEY, farm?.id],
+    enabled: !!farm,
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('cows')
+        .select('*')
+        .eq('farm_id', farm.id)
+        .order('ear_tag', { ascending: true });
+
+      if (error) throw error;
+      return data;
+    },
+  });
+};
+
+export const useCow = (id?: string) =>
+  useQuery({
+    queryKey: [...COWS_KEY, 'detail', id],
+    enabled: !!id,
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('cows')
+        .select('*')
+        .eq('id', id)
+        .single();
+
+      if (error) throw error;
+      return data;
+    },
+  });
+
+export const useSaveCow = () => {
+  const queryClient = useQueryClient();
+  const { farm } = useFarm();
+
+  return useMutation({
+    mutationFn: async ({ id, values }: { id?: string; values: CowInsert }) => {
+      const query = id
+        ? supabase.from('cows').update(values as CowUpdate).eq('id', id)
+        : supabase.from('cows').insert({ ...values, farm_id: farm.id });
+      const { data, error } = await query.select().single();
+
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: COWS_KEY }),
+  });
+};
+
+export const useDeleteCow = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase.from('cows').delete().eq('id', id);
+      if (error) throw error;
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: COWS_KEY }),
+  });
+};
@@ -0,0 +1,47 @@
+import { useEffect, useState } from 'react';
+
+type OrientationPermission = 'granted' | 'denied';
+
+type DeviceOrientationEventWithPermission = typeof DeviceOrientationEvent & {
+  requestPermission?: () => Promise<OrientationPermission>;
+};
+
+// iOS solo entrega la orientación tras pedir permiso, y el permiso tiene que pedirse dentro de un toque
+export const requestOrientationPermission = async () => {
+  const OrientationEvent = window.DeviceOrientationEvent as DeviceOrientationEventWithPermission | undefined;
+  if (!OrientationEvent?.requestPermission) return true;
+  try {
+    return (await OrientationEvent.requestPermission()) === 'granted';
+  } catch {
+    return false;
+  }
+};
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+
+// Giro de la pantalla respecto al horizonte, en grados (0 = nivelado; positivo = girado a la derecha).
+// Se calcula con la dirección "arriba" en el plano de la pantalla a partir de beta y gamma
+const screenTilt = (beta: number, gamma: number) => {
+  const upX = -Math.sin(toRadians(gamma)) * Math.cos(toRadians(beta));
+  const upY = Math.sin(toRadians(beta));
+  const deviceTilt = (Math.atan2(upX, upY) * 180) / Math.PI;
+  const screenAngle = window.screen.orientation?.angle ?? 0;
+  return ((deviceTilt - screenAngle + 540) % 360) - 180;
+};
+
+// Inclinación del teléfono para el nivel de la cámara guiada; null si el dispositivo no la informa
+export const useDeviceLevel = () => {
+  const [tilt, setTilt] = useState<number | null>(null);
+
+  useEffect(() => {
+    const onOrientation = ({ beta, gamma }: DeviceOrientationEvent) => {
+      if (beta == null || gamma == null) return;
+      setTilt(Math.round(screenTilt(beta, gamma) * 10) / 10);
+    };
+
+    window.addEventListener('deviceorientation', onOrientation);
+    return () => window.removeEventListener('deviceorientation', onOrientation);
+  }, []);
+
+  return tilt;
+};
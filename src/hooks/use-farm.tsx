@@ -0,0 +1,79 @@
+import { createContext, useContext, useState, type ReactNode } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import { useAuth } from '@/hooks/use-auth';
+
+export type Farm = Pick<Tables<'farms'>, 'id' | 'name'> & { role: string };
+
+type FarmContextValue = {
+  farm: Farm | null;
+  farms: Farm[];
+  isLoading: boolean;
+  selectFarm: (farmId: string) => void;
+};
+
+const FARM_STORAGE_KEY = 'rumpex.farmId';
+
+const FarmContext = createContext<FarmContextValue | undefined>(undefined);
+
+export const FarmProvider = ({ children }: { children: ReactNode }) => {
+  const { user } = useAuth();
+  const [selectedId, setSelectedId] = useState(() => localStorage.getItem(FARM_STORAGE_KEY));
+
+  const { data: farms = [], isLoading } = useQuery({
+    queryKey: ['farms', user?.id],
+    enabled: !!user,
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('farm_members')
+        .select('role, farms(id, name)')
+        .eq('user_id', user.id);
+
+      if (error) throw error;
+      return data
+        .filter((membership) => membership.farms)
+        .map((membership) => ({ ...membership.farms, role: membership.role }))
+        .sort((a, b) => a.name.localeCompare(b.name));
+    },
+  });
+
+  const selectFarm = (farmId: string) => {
+    localStorage.setItem(FARM_STORAGE_KEY, farmId);
+    setSelectedId(farmId);
+  };
+
+  // Si la granja guardada ya no está disponible se usa la primera
+  const farm = farms.find((f) => f.id === selectedId) ?? farms[0] ?? null;
+
+  return (
+    <FarmContext.Provider value={{ farm, farms, isLoading: !!user && isLoading, selectFarm }}>
+      {children}
+    </FarmContext.Provider>
+  );
+};
+
+export const useFarm = () => {
+  const context = useContext(FarmContext);
+  if (!context) {
+    throw new Error('useFarm must be used within a FarmProvider');
+  }
+  return context;
+};
+
+export const useCreateFarm = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (name: string) => {
+      // El id se genera aquí: la membresía la crea un trigger y aún no existe
+      // cuando se evaluaría la política de lectura de un insert con select()
+      const id = crypto.randomUUID();
+      const { error } = await supabase.from('farms').insert({ id, name });
+
+      if (error) throw error;
+      return { id, name };
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['farms'] }),
+  });
+};
@@ -0,0 +1,14 @@
+import { useQuery } from '@tanstack/react-query';
+import { createSignedImageUrls, SIGNED_URL_TTL_SECONDS } from '@/lib/storage';
+
+// Firma en lote las rutas del bucket y las renueva antes de que caduquen
+export const useSignedImageUrls = (paths: (string | null | undefined)[]) => {
+  const uniquePaths = [...new Set(paths.filter((path): path is string => !!path))].sort();
+
+  return useQuery({
+    queryKey: ['signed-image-urls', uniquePaths],
+    enabled: uniquePaths.length > 0,
+    staleTime: (SIGNED_URL_TTL_SECONDS - 5 * 60) * 1000,
+    queryFn: () => createSignedImageUrls(uniquePaths),
+  });
+};
@@ -0,0 +1,163 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { useFarm } from '@/hooks/use-farm';
+import { useToast } from '@/hooks/use-toast';
+import {
+  enqueueAnalysis,
+  listPendingAnalyses,
+  removePendingAnalysis,
+  sendPendingAnalysis,
+  type PendingAnalysis,
+} from '@/lib/offline-queue';
+
+const PENDING_KEY = ['pending-analyses'];
+
+// Espera entre reintentos automáticos cuando la señal va y viene: 15 s, 30 s, 1 min... hasta 10 min
+const BACKOFF_BASE_MS = 15_000;
+const BACKOFF_MAX_MS = 10 * 60_000;
+// Espera si la respuesta 429 no trae Retry-After
+const RATE_LIMIT_FALLBACK_SECONDS = 60;
+
+const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+const useIsOnline = () => {
+  const [isOnline, setIsOnline] = useState(() => navigator.onLine);
+
+  useEffect(() => {
+    const onOnline = () => setIsOnline(true);
+    const onOffline = () => setIsOnline(false);
+    window.addEventListener('online', onOnline);
+    window.addEventListener('offline', onOffline);
+    return () => {
+      window.removeEventListener('online', onOnline);
+      window.removeEventListener('offline', onOffline);
+    };
+  }, []);
+
+  return isOnline;
+};
+
+// Cola de fotos tomadas sin conexión: se envían solas al volver la señal; las que fallan se reintentan a mano
+export const usePendingAnalyses = () => {
+  const { farm } = useFarm();
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const isOnline = useIsOnline();
+  const isSending = useRef(false);
+  // Copia en estado de isSending para desactivar los reintentos manuales mientras se vacía la cola
+  const [sending, setSending] = useState(false);
+  // Cambia cuando entra una foto a la cola o un reintento manual la deja esperando, para retomar los
+  // reintentos automáticos aunque navigator.onLine no haya cambiado (señal débil)
+  const [wakeUp, setWakeUp] = useState(0);
+
+  const { data: items = [] } = useQuery({
+    queryKey: [...PENDING_KEY, farm?.id],
+    enabled: !!farm,
+    // La cola vive en IndexedDB: tiene que leerse aunque no haya red
+    networkMode: 'always',
+    queryFn: () => listPendingAnalyses(farm.id),
+  });
+
+  const refresh = useCallback(() => queryClient.invalidateQueries({ queryKey: PENDING_KEY }), [queryClient]);
+
+  // Envía en orden y devuelve cuántas fotos quedaron sin enviar
+  const send = useCallback(
+    async (toSend: PendingAnalysis[]) => {
+      if (isSending.current) return toSend.length;
+      isSending.current = true;
+      setSending(true);
+
+      const queue = [...toSend];
+      let sent = 0;
+      try {
+        while (queue.length > 0) {
+          const result = await sendPendingAnalysis(queue.shift());
+          await refresh();
+          if (result.sent) {
+            sent++;
+            continue;
+          }
+          // Vaciar la cola de golpe choca con el límite por minuto: se espera lo que pide el servidor
+          // y se sigue con la misma foto
+          if (result.code === 'RATE_LIMITED') {
+            await wait((result.retryAfter ?? RATE_LIMIT_FALLBACK_SECONDS) * 1000);
+            queue.unshift(result.item);
+            continue;
+          }
+          // Sin red o sin cupo el resto tampoco pasaría; queda para el siguiente reintento automático
+          if (result.item.status === 'pendiente') break;
+        }
+      } finally {
+        isSending.current = false;
+        setSending(false);
+      }
+
+      if (sent > 0) {
+        queryClient.invalidateQueries({ queryKey: ['analyses'] });
+        toast({
+          title: "Pendientes enviados",
+          description: sent === 1
+            ? "Se registró en el historial 1 foto tomada sin conexión"
+            : `Se registraron en el historial ${sent} fotos tomadas sin conexión`,
+        });
+      }
+      return toSend.length - sent;
+    },
+    [queryClient, refresh, toast],
+  );
+
+  // Envío automático solo al abrir la app, al volver la conexión y tras encolar o reintentar a mano,
+  // no cada vez que cambia la lista. Las fotos con estado "error" esperan a que el usuario las reintente
+  const farmId = farm?.id;
+  useEffect(() => {
+    if (!isOnline || !farmId) return;
+
+    let cancelled = false;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+
+    const logError = (queueError: unknown) => console.error('Error sending pending analyses:', queueError);
+
+    const sendWaiting = async (attempt: number) => {
+      // "enviando" también cuenta: puede haber quedado así si se cerró la app a mitad del envío
+      const waiting = (await listPendingAnalyses(farmId)).filter((item) => item.status !== 'error');
+      if (cancelled || waiting.length === 0) return;
+
+      const left = await send(waiting);
+      const stillWaiting = (await listPendingAnalyses(farmId)).some((item) => item.status === 'pendiente');
+      if (cancelled || left === 0 || !stillWaiting) return;
+
+      const delay = Math.min(BACKOFF_BASE_MS * 2 ** attempt, BACKOFF_MAX_MS);
+      timer = setTimeout(() => sendWaiting(attempt + 1).catch(logError), delay);
+    };
+
+    sendWaiting(0).catch(logError);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [isOnline, farmId, send, wakeUp]);
+
+  const enqueue = async (options: Parameters<typeof enqueueAnalysis>[0]) => {
+    const item = await enqueueAnalysis(options);
+    await refresh();
+    setWakeUp((round) => round + 1);
+    return item;
+  };
+
+  const retry = async (item: PendingAnalysis) => {
+    if (isSending.current) {
+      toast({ title: "Enviando pendientes", description: "Espera a que termine el envío en curso para reintentar" });
+      return;
+    }
+    const left = await send([item]);
+    if (left > 0) setWakeUp((round) => round + 1);
+  };
+
+  const remove = async (item: PendingAnalysis) => {
+    await removePendingAnalysis(item.id);
+    await refresh();
+  };
+
+  return { items, isOnline, isSending: sending, enqueue, retry, remove };
+};
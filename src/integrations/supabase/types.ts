@@ -14,13 +14,303 @@ export type Database = {
   }
   public: {
     Tables: {
-      [_ in never]: never
+      analyses: {
+        Row: {
+          angulo_corregido: number | null
+          angulo_grados: number | null
+          bounding_box: Json | null
+          categoria: string | null
+          categoria_corregida: string | null
+          corregido_at: string | null
+          cow_id: string | null
+          created_at: string
+          diferencia_altura_cm: number | null
+          farm_id: string
+          id: string
+          image_path: string | null
+          lactation_number: number | null
+          modelo: string
+          numero_vacas_detectadas: number | null
+          puntaje_corregido: number | null
+          puntaje_lineal: number | null
+          puntos_anatomicos: Json | null
+          puntos_corregidos: Json | null
+          razon_invalidez: string | null
+          recomendacion: string | null
+          vaca_analizada: number | null
+          valido: boolean
+        }
+        Insert: {
+          angulo_corregido?: number | null
+          angulo_grados?: number | null
+          bounding_box?: Json | null
+          categoria?: string | null
+          categoria_corregida?: string | null
+          corregido_at?: string | null
+          cow_id?: string | null
+          created_at?: string
+          diferencia_altura_cm?: number | null
+          farm_id: string
+          id?: string
+          image_path?: string | null
+          lactation_number?: number | null
+          modelo: string
+          numero_vacas_detectadas?: number | null
+          puntaje_corregido?: number | null
+          puntaje_lineal?: number | null
+          puntos_anatomicos?: Json | null
+          puntos_corregidos?: Json | null
+          razon_invalidez?: string | null
+          recomendacion?: string | null
+          vaca_analizada?: number | null
+          valido: boolean
+        }
+        Update: {
+          angulo_corregido?: number | null
+          angulo_grados?: number | null
+          bounding_box?: Json | null
+          categoria?: string | null
+          categoria_corregida?: string | null
+          corregido_at?: string | null
+          cow_id?: string | null
+          created_at?: string
+          diferencia_altura_cm?: number | null
+          farm_id?: string
+          id?: string
+          image_path?: string | null
+          lactation_number?: number | null
+          modelo?: string
+          numero_vacas_detectadas?: number | null
+          puntaje_corregido?: number | null
+          puntaje_lineal?: number | null
+          puntos_anatomicos?: Json | null
+          puntos_corregidos?: Json | null
+          razon_invalidez?: string | null
+          recomendacion?: string | null
+          vaca_analizada?: number | null
+          valido?: boolean
+        }
+        Relationships: [
+          {
+            foreignKeyName: "analyses_cow_id_fkey"
+            columns: ["cow_id"]
+            isOneToOne: false
+            referencedRelation: "cows"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "analyses_farm_id_fkey"
+            columns: ["farm_id"]
+            isOneToOne: false
+            referencedRelation: "farms"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      cows: {
+        Row: {
+          birth_date: string | null
+          breed: string | null
+          created_at: string
+          ear_tag: string
+          farm_id: string
+          id: string
+          lactation_number: number
+          name: string | null
+          updated_at: string
+        }
+        Insert: {
+          birth_date?: string | null
+          breed?: string | null
+          created_at?: string
+          ear_tag: string
+          farm_id: string
+          id?: string
+          lactation_number?: number
+          name?: string | null
+          updated_at?: string
+        }
+        Update: {
+          birth_date?: string | null
+          breed?: string | null
+          created_at?: string
+          ear_tag?: string
+          farm_id?: string
+          id?: string
+          lactation_number?: number
+          name?: string | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "cows_farm_id_fkey"
+            columns: ["farm_id"]
+            isOneToOne: false
+            referencedRelation: "farms"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      farm_members: {
+        Row: {
+          created_at: string
+          farm_id: string
+          role: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          farm_id: string
+          role?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          farm_id?: string
+          role?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "farm_members_farm_id_fkey"
+            columns: ["farm_id"]
+            isOneToOne: false
+            referencedRelation: "farms"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      farm_monthly_usage: {
+        Row: {
+          analyses: number
+          farm_id: string
+          month: string
+        }
+        Insert: {
+          analyses?: number
+          farm_id: string
+          month: string
+        }
+        Update: {
+          analyses?: number
+          farm_id?: string
+          month?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "farm_monthly_usage_farm_id_fkey"
+            columns: ["farm_id"]
+            isOneToOne: false
+            referencedRelation: "farms"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      farms: {
+        Row: {
+          created_at: string
+          created_by: string
+          id: string
+          monthly_analysis_quota: number
+          name: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string
+          id?: string
+          monthly_analysis_quota?: number
+          name: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string
+          id?: string
+          monthly_analysis_quota?: number
+          name?: string
+        }
+        Relationships: []
+      }
+      rate_limit_counters: {
+        Row: {
+          hits: number
+          key: string
+          window_start: string
+        }
+        Insert: {
+          hits?: number
+          key: string
+          window_start: string
+        }
+        Update: {
+          hits?: number
+          key?: string
+          window_start?: string
+        }
+        Relationships: []
+      }
     }
     Views: {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      consume_farm_quota: {
+        Args: {
+          _farm_id: string
+        }
+        Returns: {
+          allowed: boolean
+          quota: number
+          retry_after_seconds: number
+          used: number
+        }[]
+      }
+      herd_score_counts: {
+        Args: {
+          _farm_id: string
+          _from?: string
+          _to?: string
+        }
+        Returns: {
+          categoria: string
+          puntaje_lineal: number
+          total: number
+        }[]
+      }
+      hit_rate_limit: {
+        Args: {
+          _key: string
+          _max_hits: number
+          _window_seconds: number
+        }
+        Returns: {
+          allowed: boolean
+          retry_after_seconds: number
+        }[]
+      }
+      is_farm_folder_member: {
+        Args: {
+          _object_name: string
+        }
+        Returns: boolean
+      }
+      is_farm_member: {
+        Args: {
+          _farm_id: string
+        }
+        Returns: boolean
+      }
+      is_farm_owner: {
+        Args: {
+          _farm_id: string
+        }
+        Returns: boolean
+      }
+      refund_farm_quota: {
+        Args: {
+          _farm_id: string
+        }
+        Returns: undefined
+      }
     }
     Enums: {
       [_ in never]: never
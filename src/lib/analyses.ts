@@ -0,0 +1,210 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import type { Categoria } from '@/lib/rump-scale';
+
+export { CATEGORIAS, type Categoria } from '@/lib/rump-scale';
+
+// Caja delimitadora normalizada (0-1) respecto al ancho y alto de la foto
+export type BoundingBox = {
+  x: number;
+  y: number;
+  ancho: number;
+  alto: number;
+};
+
+// Punto normalizado (0-1) sobre la foto, origen arriba a la izquierda
+export type Point = {
+  x: number;
+  y: number;
+};
+
+// Tuberosidad coxal (hook bone) e isquiática (pin bone) que definen la línea del anca
+export type RumpLandmarks = {
+  coxal: Point;
+  isquiatica: Point;
+};
+
+export type CowDetection = {
+  numero: number;
+  boundingBox: BoundingBox | null;
+  puntosAnatomicos?: RumpLandmarks | null;
+  anguloGrados: number | null;
+  diferenciaAlturaCm?: number | null;
+  puntajeLineal: number | null;
+  categoria: Categoria | null;
+  recomendacion: string | null;
+};
+
+// Versión del resultado de analyze-image que entiende la app
+export const RESULT_SCHEMA_VERSION = 2;
+
+export type AnalysisResult = {
+  schemaVersion: typeof RESULT_SCHEMA_VERSION;
+  valido: boolean;
+  razonInvalidez?: string;
+  numeroVacasDetectadas?: number;
+  vacaAnalizada?: number;
+  anguloGrados?: number;
+  diferenciaAlturaCm?: number | null;
+  puntajeLineal?: number;
+  categoria?: Categoria;
+  recomendacion?: string;
+  puntosAnatomicos?: RumpLandmarks | null;
+  vacas?: CowDetection[];
+  modelo?: string;
+  prompt?: string;
+};
+
+// Prompt con el que la app pide el análisis a analyze-image, en línea y desde la cola sin conexión.
+// Sin versión, la función usa la última, que es la que coincide con su responseSchema
+export const ANALYSIS_PROMPT = { prompt: 'anca-tecnico' } as const;
+
+// Versión 1 (sin schemaVersion): el ángulo en grados venía en "anguloCm"
+type LegacyCowDetection = Omit<CowDetection, 'anguloGrados' | 'diferenciaAlturaCm'> & { anguloCm: number | null };
+
+type LegacyAnalysisResult = Omit<AnalysisResult, 'schemaVersion' | 'anguloGrados' | 'diferenciaAlturaCm' | 'vacas'> & {
+  schemaVersion?: 1;
+  anguloCm?: number;
+  vacas?: LegacyCowDetection[];
+};
+
+const fromLegacyCow = ({ anguloCm, ...cow }: LegacyCowDetection): CowDetection => ({
+  ...cow,
+  anguloGrados: anguloCm,
+  diferenciaAlturaCm: null,
+});
+
+// Acepta la respuesta de analyze-image en cualquier versión y la lleva a la actual
+export const parseAnalysisResult = (data: AnalysisResult | LegacyAnalysisResult): AnalysisResult => {
+  if (data.schemaVersion === RESULT_SCHEMA_VERSION) return data;
+
+  const { anguloCm, vacas, ...rest } = data as LegacyAnalysisResult;
+  return {
+    ...rest,
+    schemaVersion: RESULT_SCHEMA_VERSION,
+    anguloGrados: anguloCm,
+    diferenciaAlturaCm: null,
+    vacas: vacas?.map(fromLegacyCow),
+  };
+};
+
+export type AnalysisRow = Tables<'analyses'>;
+
+type SaveAnalysisOptions = {
+  farmId: string;
+  imagePath?: string | null;
+  cowId?: string | null;
+  lactationNumber?: number | null;
+};
+
+// Modelo usado cuando la función no informa cuál respondió
+const DEFAULT_MODEL = 'gemini-1.5-flash';
+
+// Valor de "modelo" para las mediciones hechas a mano en el dispositivo, sin IA
+export const MANUAL_MODEL = 'manual';
+
+// Resultado equivalente al del análisis automático para una medición manual de una sola vaca
+export const manualAnalysisResult = (
+  puntos: RumpLandmarks,
+  { anguloGrados, puntajeLineal, categoria }: Pick<AnalysisResult, 'anguloGrados' | 'puntajeLineal' | 'categoria'>,
+): AnalysisResult => ({
+  schemaVersion: RESULT_SCHEMA_VERSION,
+  valido: true,
+  numeroVacasDetectadas: 1,
+  vacaAnalizada: 1,
+  anguloGrados,
+  puntajeLineal,
+  categoria,
+  puntosAnatomicos: puntos,
+  modelo: MANUAL_MODEL,
+});
+
+// Número de la vaca analizada: vacaAnalizada si es una de las detectadas, si no la primera detección.
+// La pantalla y el guardado usan la misma regla para que el arete elegido quede en la vaca que se muestra
+export const analyzedCowNumber = ({ vacaAnalizada, vacas }: AnalysisResult): number | null => {
+  if (!vacas?.length) return vacaAnalizada ?? null;
+  return vacas.some((vaca) => vaca.numero === vacaAnalizada) ? vacaAnalizada : vacas[0].numero;
+};
+
+// Vacas a registrar: una fila por vaca detectada, o el resultado principal si no hay detalle
+const detectionsOf = (result: AnalysisResult): (CowDetection | null)[] =>
+  result.valido && result.vacas?.length ? result.vacas : [null];
+
+// Guarda una fila por vaca detectada. La vaca del arete indicado se asigna a la vaca analizada
+export const saveAnalyses = async (
+  result: AnalysisResult,
+  { farmId, imagePath = null, cowId = null, lactationNumber = null }: SaveAnalysisOptions,
+) => {
+  const analyzedCow = analyzedCowNumber(result);
+  const rows = detectionsOf(result).map((detection) => {
+    const isAnalyzedCow = !detection || detection.numero === analyzedCow;
+    return {
+      farm_id: farmId,
+      image_path: imagePath,
+      cow_id: isAnalyzedCow ? cowId : null,
+      lactation_number: isAnalyzedCow ? lactationNumber : null,
+      valido: result.valido,
+      razon_invalidez: result.razonInvalidez ?? null,
+      numero_vacas_detectadas: result.numeroVacasDetectadas ?? null,
+      vaca_analizada: detection ? detection.numero : result.vacaAnalizada ?? null,
+      bounding_box: detection?.boundingBox ?? null,
+      puntos_anatomicos: (detection ? detection.puntosAnatomicos : result.puntosAnatomicos) ?? null,
+      angulo_grados: detection ? detection.anguloGrados : result.anguloGrados ?? null,
+      diferencia_altura_cm: (detection ? detection.diferenciaAlturaCm : result.diferenciaAlturaCm) ?? null,
+      puntaje_lineal: detection ? detection.puntajeLineal : result.puntajeLineal ?? null,
+      categoria: detection ? detection.categoria : result.categoria ?? null,
+      recomendacion: detection ? detection.recomendacion : result.recomendacion ?? null,
+      modelo: result.modelo ?? DEFAULT_MODEL,
+    };
+  });
+
+  const { data, error } = await supabase
+    .from('analyses')
+    .insert(rows)
+    .select();
+
+  if (error) throw error;
+  return data;
+};
+
+// Asigna (o quita) la vaca del registro a una vaca detectada en una foto ya guardada
+export const assignAnalysisCow = async (
+  analysisId: string,
+  cow: Pick<Tables<'cows'>, 'id' | 'lactation_number'> | null,
+) => {
+  const { data, error } = await supabase
+    .from('analyses')
+    .update({ cow_id: cow?.id ?? null, lactation_number: cow?.lactation_number ?? null })
+    .eq('id', analysisId)
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data;
+};
+
+export type AnalysisCorrection = {
+  puntos: RumpLandmarks;
+  anguloGrados: number;
+  puntajeLineal: number;
+  categoria: Categoria;
+};
+
+// Guarda la medición corregida a mano sin tocar los valores que devolvió el modelo
+export const saveAnalysisCorrection = async (analysisId: string, correction: AnalysisCorrection) => {
+  const { data, error } = await supabase
+    .from('analyses')
+    .update({
+      puntos_corregidos: correction.puntos,
+      angulo_corregido: correction.anguloGrados,
+      puntaje_corregido: correction.puntajeLineal,
+      categoria_corregida: correction.categoria,
+      corregido_at: new Date().toISOString(),
+    })
+    .eq('id', analysisId)
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data;
+};
@@ -0,0 +1,51 @@
+import { FunctionsFetchError, FunctionsHttpError } from '@supabase/supabase-js';
+
+export type FunctionErrorDetails = {
+  status?: number;
+  code?: string;
+  message: string;
+  retryAfter?: number;
+};
+
+// Extrae el código y mensaje que devuelve una edge function cuando responde con error
+export const readFunctionError = async (error: Error): Promise<FunctionErrorDetails> => {
+  if (!(error instanceof FunctionsHttpError)) {
+    return { message: error.message };
+  }
+
+  const response = error.context as Response;
+  try {
+    const body = await response.clone().json();
+    const retryAfter = Number(response.headers.get('Retry-After') ?? body.retryAfter);
+    return {
+      status: response.status,
+      code: body.code,
+      message: body.error ?? error.message,
+      retryAfter: Number.isFinite(retryAfter) ? retryAfter : undefined,
+    };
+  } catch {
+    return { status: response.status, message: error.message };
+  }
+};
+
+// La petición no obtuvo respuesta. Con señal débil el teléfono suele decir que está en línea,
+// así que navigator.onLine no basta para saberlo
+export const isNetworkError = (error: unknown) => {
+  if (!navigator.onLine || error instanceof FunctionsFetchError || error instanceof TypeError) return true;
+  // Storage envuelve el TypeError de fetch en un StorageUnknownError, que supabase-js no exporta
+  if (error instanceof Error && error.name === 'StorageUnknownError') {
+    return 'originalError' in error && error.originalError instanceof TypeError;
+  }
+  // PostgREST no lanza: devuelve un error con el mensaje "TypeError: ..." del fetch fallido
+  return typeof error === 'object' && error !== null && 'message' in error &&
+    String(error.message).startsWith('TypeError:');
+};
+
+// Texto legible para esperar un Retry-After expresado en segundos
+export const formatRetryAfter = (seconds?: number) => {
+  if (!seconds) return 'unos momentos';
+  if (seconds < 60) return `${seconds} segundos`;
+  if (seconds < 3600) return `${Math.ceil(seconds / 60)} minutos`;
+  if (seconds < 86400) return `${Math.ceil(seconds / 3600)} horas`;
+  return `${Math.ceil(seconds / 86400)} días`;
+};
@@ -0,0 +1,40 @@
+import type { Point, RumpLandmarks } from '@/lib/analyses';
+import { bandForAngle, scoreFromAngle, type Categoria } from '@/lib/rump-scale';
+
+export type ImageSize = {
+  width: number;
+  height: number;
+};
+
+export type RumpMeasurement = {
+  anguloGrados: number;
+  puntajeLineal: number;
+  categoria: Categoria;
+};
+
+// Los puntos vienen normalizados (0-1); el ángulo se mide en píxeles para no deformarlo
+const toPixels = (point: Point, { width, height }: ImageSize) => ({
+  x: point.x * width,
+  y: point.y * height,
+});
+
+// Ángulo en grados entre la horizontal y la línea coxal → isquion.
+// Positivo cuando el isquion está más bajo que el coxal (anca caída), negativo si está más alto
+export const rumpAngle = ({ coxal, isquiatica }: RumpLandmarks, size: ImageSize) => {
+  const hook = toPixels(coxal, size);
+  const pin = toPixels(isquiatica, size);
+  const radians = Math.atan2(pin.y - hook.y, Math.abs(pin.x - hook.x));
+  return Math.round((radians * 180) / Math.PI * 10) / 10;
+};
+
+// Puntaje y categoría salen de la escala compartida con la edge function
+export const measureRump = (landmarks: RumpLandmarks, size: ImageSize): RumpMeasurement => {
+  const anguloGrados = rumpAngle(landmarks, size);
+  return { anguloGrados, puntajeLineal: scoreFromAngle(anguloGrados), categoria: bandForAngle(anguloGrados).categoria };
+};
+
+// Mantiene un punto arrastrado dentro de la foto
+export const clampPoint = ({ x, y }: Point): Point => ({
+  x: Math.min(1, Math.max(0, x)),
+  y: Math.min(1, Math.max(0, y)),
+});
@@ -0,0 +1,47 @@
+import type { LibHeif } from 'libheif-js/libheif-wasm/libheif-bundle.mjs';
+
+const HEIC_TYPES = ['image/heic', 'image/heif', 'image/heic-sequence', 'image/heif-sequence'];
+
+// Algunos navegadores (Chrome en Windows, Android) entregan las HEIC sin tipo MIME
+export const isHeic = (file: File) =>
+  HEIC_TYPES.includes(file.type) || (!file.type && /\.(heic|heif)$/i.test(file.name));
+
+// El decodificador WASM pesa ~2 MB: se descarga solo la primera vez que llega una HEIC
+let libheifPromise: Promise<LibHeif> | null = null;
+
+const loadLibheif = () => {
+  if (!libheifPromise) {
+    libheifPromise = import('libheif-js/libheif-wasm/libheif-bundle.mjs')
+      .then(({ default: factory }) => factory())
+      .catch((loadError) => {
+        // Permitir reintentar si falló la descarga
+        libheifPromise = null;
+        throw loadError;
+      });
+  }
+  return libheifPromise;
+};
+
+// Decodifica la imagen principal de la HEIC a píxeles RGBA. libheif ya aplica la rotación del archivo
+export const decodeHeic = async (file: File): Promise<ImageData> => {
+  const libheif = await loadLibheif();
+  const images = new libheif.HeifDecoder().decode(await file.arrayBuffer());
+  if (!images.length) throw new Error('HEIC file contains no images');
+
+  const [image] = images;
+  const width = image.get_width();
+  const height = image.get_height();
+
+  try {
+    // display() escribe los píxeles en el arreglo que se le pasa
+    const pixels = new Uint8ClampedArray(width * height * 4);
+    await new Promise<void>((resolve, reject) => {
+      image.display({ data: pixels, width, height }, (result) =>
+        result ? resolve() : reject(new Error('HEIC image could not be converted to RGBA')),
+      );
+    });
+    return new ImageData(pixels, width, height);
+  } finally {
+    images.forEach((decoded) => decoded.free());
+  }
+};
@@ -0,0 +1,137 @@
+import { decodeHeic, isHeic } from '@/lib/heic';
+
+export type OutputFormat = 'image/jpeg' | 'image/webp';
+
+export type ImagePipelineOptions = {
+  // Lado mayor de la foto resultante, en píxeles
+  maxLongEdge: number;
+  format: OutputFormat;
+  quality: number;
+};
+
+// Suficiente detalle para ubicar cadera e isquion sin subir fotos de varios MB por 3G
+export const DEFAULT_IMAGE_OPTIONS: ImagePipelineOptions = {
+  maxLongEdge: 1600,
+  format: 'image/jpeg',
+  quality: 0.85,
+};
+
+export type PreparedImage = {
+  file: File;
+  width: number;
+  height: number;
+  originalBytes: number;
+  bytes: number;
+  // false si el navegador no pudo decodificar la foto y se usa el archivo original
+  processed: boolean;
+};
+
+const EXTENSIONS: Record<OutputFormat, string> = {
+  'image/jpeg': 'jpg',
+  'image/webp': 'webp',
+};
+
+type DecodedImage = ImageBitmap | HTMLImageElement | HTMLCanvasElement;
+
+// createImageBitmap con imageOrientation 'from-image' aplica la orientación EXIF al decodificar;
+// al volver a codificar, la rotación queda en los píxeles y el EXIF desaparece
+
+const decodeNative = async (file: File): Promise<DecodedImage> => {
+  if ('createImageBitmap' in window) {
+    return createImageBitmap(file, { imageOrientation: 'from-image' });
+  }
+
+  // Navegadores sin createImageBitmap: <img> también respeta el EXIF (image-orientation: from-image)
+  const url = URL.createObjectURL(file);
+  try {
+    const image = new Image();
+    image.src = url;
+    await image.decode();
+    return image;
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+};
+
+// Safari abre HEIC por sí mismo; el resto de navegadores pasa por el decodificador WASM
+const decodeImage = async (file: File): Promise<DecodedImage> => {
+  if (!isHeic(file)) return decodeNative(file);
+
+  try {
+    return await decodeNative(file);
+  } catch {
+    const pixels = await decodeHeic(file);
+    const canvas = document.createElement('canvas');
+    canvas.width = pixels.width;
+    canvas.height = pixels.height;
+    canvas.getContext('2d').putImageData(pixels, 0, 0);
+    return canvas;
+  }
+};
+
+const scaleToLongEdge = (width: number, height: number, maxLongEdge: number) => {
+  const scale = Math.min(1, maxLongEdge / Math.max(width, height));
+  return { width: Math.round(width * scale), height: Math.round(height * scale) };
+};
+
+const encodeCanvas = (canvas: HTMLCanvasElement, format: OutputFormat, quality: number) =>
+  new Promise<Blob>((resolve, reject) => {
+    canvas.toBlob(
+      (blob) => (blob ? resolve(blob) : reject(new Error(`No se pudo codificar la imagen como ${format}`))),
+      format,
+      quality,
+    );
+  });
+
+const renameWithExtension = (name: string, format: OutputFormat) =>
+  `${name.replace(/\.[^.]+$/, '') || 'foto'}.${EXTENSIONS[format]}`;
+
+// Endereza, reduce y recomprime la foto antes de subirla
+export const prepareImage = async (
+  file: File,
+  options: Partial<ImagePipelineOptions> = {},
+): Promise<PreparedImage> => {
+  const { maxLongEdge, format, quality } = { ...DEFAULT_IMAGE_OPTIONS, ...options };
+
+  let source: DecodedImage;
+  try {
+    source = await decodeImage(file);
+  } catch (decodeError) {
+    console.warn('Image could not be decoded in the browser, uploading original:', decodeError);
+    return { file, width: 0, height: 0, originalBytes: file.size, bytes: file.size, processed: false };
+  }
+
+  const { width, height } = scaleToLongEdge(source.width, source.height, maxLongEdge);
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const context = canvas.getContext('2d');
+  // JPEG no tiene transparencia: fondo blanco en vez de negro para PNG con alfa
+  context.fillStyle = '#FFFFFF';
+  context.fillRect(0, 0, width, height);
+  context.imageSmoothingQuality = 'high';
+  context.drawImage(source, 0, 0, width, height);
+  if ('close' in source) source.close();
+
+  const blob = await encodeCanvas(canvas, format, quality);
+  const prepared = new File([blob], renameWithExtension(file.name, format), {
+    type: format,
+    lastModified: file.lastModified,
+  });
+
+  return { file: prepared, width, height, originalBytes: file.size, bytes: prepared.size, processed: true };
+};
+
+export const formatBytes = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+// Resumen legible del ahorro, p. ej. "4.2 MB → 380 KB (−91%)"
+export const describeSavings = ({ originalBytes, bytes }: PreparedImage) => {
+  // Sin tamaño original no hay porcentaje que calcular
+  if (originalBytes <= 0) return `${formatBytes(originalBytes)} → ${formatBytes(bytes)}`;
+  const percent = Math.round((1 - bytes / originalBytes) * 100);
+  return `${formatBytes(originalBytes)} → ${formatBytes(bytes)} (${percent >= 0 ? '−' : '+'}${Math.abs(percent)}%)`;
+};
@@ -0,0 +1,160 @@
+import { supabase } from '@/integrations/supabase/client';
+import { ANALYSIS_PROMPT, parseAnalysisResult, saveAnalyses, type AnalysisResult } from '@/lib/analyses';
+import { isNetworkError, readFunctionError, type FunctionErrorDetails } from '@/lib/functions';
+import { uploadImage } from '@/lib/storage';
+
+export type PendingStatus = 'pendiente' | 'enviando' | 'error';
+
+// Foto tomada sin conexión, guardada con lo necesario para analizarla y registrarla después.
+// Las mediciones manuales entran con el resultado ya puesto y solo esperan a subirse y guardarse
+export type PendingAnalysis = {
+  id: string;
+  farmId: string;
+  file: File;
+  // Ruta en el bucket si la foto alcanzó a subirse antes de perder la conexión
+  imagePath: string | null;
+  // Resultado ya devuelto por analyze-image: si falló el guardado, el reintento no vuelve a analizar (ni a gastar cupo)
+  resultado: AnalysisResult | null;
+  earTag: string | null;
+  cowId: string | null;
+  lactationNumber: number | null;
+  createdAt: string;
+  status: PendingStatus;
+  error: string | null;
+  intentos: number;
+};
+
+const DB_NAME = 'rumpex-offline';
+const DB_VERSION = 1;
+const STORE = 'pendientes';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = () => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const store = request.result.createObjectStore(STORE, { keyPath: 'id' });
+        store.createIndex('farmId', 'farmId');
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const runRequest = async <T>(mode: IDBTransactionMode, operation: (store: IDBObjectStore) => IDBRequest<T>) => {
+  const db = await openDatabase();
+  return new Promise<T>((resolve, reject) => {
+    const request = operation(db.transaction(STORE, mode).objectStore(STORE));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+type EnqueueOptions = Pick<PendingAnalysis, 'farmId' | 'file'> &
+  Partial<Pick<PendingAnalysis, 'imagePath' | 'resultado' | 'earTag' | 'cowId' | 'lactationNumber'>>;
+
+export const enqueueAnalysis = async ({
+  farmId,
+  file,
+  imagePath = null,
+  resultado = null,
+  earTag = null,
+  cowId = null,
+  lactationNumber = null,
+}: EnqueueOptions) => {
+  const item: PendingAnalysis = {
+    id: crypto.randomUUID(),
+    farmId,
+    file,
+    imagePath,
+    resultado,
+    earTag,
+    cowId,
+    lactationNumber,
+    createdAt: new Date().toISOString(),
+    status: 'pendiente',
+    error: null,
+    intentos: 0,
+  };
+  await runRequest('readwrite', (store) => store.put(item));
+  return item;
+};
+
+// Pendientes de la granja, de la foto más antigua a la más reciente
+export const listPendingAnalyses = async (farmId: string) => {
+  const items = await runRequest('readonly', (store) => store.index('farmId').getAll(farmId));
+  return (items as PendingAnalysis[]).sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+};
+
+export const updatePendingAnalysis = async (item: PendingAnalysis) => {
+  await runRequest('readwrite', (store) => store.put(item));
+  return item;
+};
+
+export const removePendingAnalysis = async (id: string) => {
+  await runRequest('readwrite', (store) => store.delete(id));
+};
+
+const errorMessage = (error: unknown) => (error instanceof Error ? error.message : String(error));
+
+// Límites que se levantan solos con el tiempo: la foto vuelve a esperar en vez de quedar con error
+const WAITING_CODES = ['RATE_LIMITED', 'QUOTA_EXCEEDED'];
+
+// item es la foto tal como quedó guardada; code y retryAfter vienen de la respuesta de analyze-image
+export type SendResult = {
+  sent: boolean;
+  item: PendingAnalysis;
+  code?: string;
+  retryAfter?: number;
+};
+
+// Sube la foto (si hace falta), pide el análisis y lo guarda en el historial, igual que el flujo en línea.
+// Si sale bien, la foto deja la cola; si falla, queda con su estado y el motivo para mostrarlo en la lista
+export const sendPendingAnalysis = async (item: PendingAnalysis): Promise<SendResult> => {
+  let current = await updatePendingAnalysis({ ...item, status: 'enviando', error: null, intentos: item.intentos + 1 });
+  let details: FunctionErrorDetails | null = null;
+  try {
+    if (!current.imagePath) {
+      // Se guarda la ruta para que un reintento no vuelva a subir la foto
+      current = await updatePendingAnalysis({ ...current, imagePath: await uploadImage(current.file, current.farmId) });
+    }
+
+    if (!current.resultado) {
+      const { data, error } = await supabase.functions.invoke('analyze-image', {
+        body: { imagePath: current.imagePath, farmId: current.farmId, ...ANALYSIS_PROMPT },
+      });
+      if (error) {
+        if (isNetworkError(error)) throw error;
+        details = await readFunctionError(error);
+        throw new Error(details.message);
+      }
+      current = await updatePendingAnalysis({ ...current, resultado: parseAnalysisResult(data) });
+    }
+
+    await saveAnalyses(current.resultado, {
+      farmId: current.farmId,
+      imagePath: current.imagePath,
+      cowId: current.cowId,
+      lactationNumber: current.lactationNumber,
+    });
+    await removePendingAnalysis(current.id);
+    return { sent: true, item: current };
+  } catch (sendError) {
+    console.error('Error sending pending analysis:', sendError);
+    // Sin respuesta o frenada por los límites vuelve a esperar; cualquier otro fallo queda para reintentar a mano
+    const waits = isNetworkError(sendError) || WAITING_CODES.includes(details?.code);
+    const failed = await updatePendingAnalysis({
+      ...current,
+      status: waits ? 'pendiente' : 'error',
+      error: errorMessage(sendError),
+    });
+    return { sent: false, item: failed, code: details?.code, retryAfter: details?.retryAfter };
+  }
+};
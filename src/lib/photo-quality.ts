@@ -0,0 +1,121 @@
+import type { PreparedImage } from '@/lib/image-pipeline';
+
+export type QualityCheck = 'borrosa' | 'oscura' | 'sobreexpuesta' | 'baja-resolucion' | 'vertical';
+
+export type QualityIssue = {
+  check: QualityCheck;
+  titulo: string;
+  sugerencia: string;
+};
+
+// Umbrales medidos sobre la copia reducida en escala de grises, no sobre la foto completa
+const SAMPLE_LONG_EDGE = 512;
+// Varianza del laplaciano por debajo de la cual los bordes del anca ya no se distinguen
+const MIN_SHARPNESS = 60;
+const MIN_BRIGHTNESS = 55;
+const MAX_BRIGHTNESS = 205;
+// Fracción de píxeles casi negros o casi blancos que indica sombras o cielo quemado
+const MAX_CLIPPED = 0.4;
+const MIN_LONG_EDGE = 800;
+
+const ISSUES: Record<QualityCheck, Omit<QualityIssue, 'check'>> = {
+  'borrosa': {
+    titulo: 'La foto está borrosa',
+    sugerencia: 'Sostén el teléfono firme, toca la vaca en la pantalla para enfocar y espera a que esté quieta',
+  },
+  'oscura': {
+    titulo: 'La foto está muy oscura',
+    sugerencia: 'Toma la foto con luz de día o saca a la vaca de la sombra del establo',
+  },
+  'sobreexpuesta': {
+    titulo: 'La foto tiene demasiada luz',
+    sugerencia: 'Evita el sol de frente; ponte con el sol a tu espalda',
+  },
+  'baja-resolucion': {
+    titulo: 'La foto tiene poca resolución',
+    sugerencia: 'Acércate a la vaca o usa la cámara principal en lugar de una captura de pantalla',
+  },
+  'vertical': {
+    titulo: 'La foto está en vertical',
+    sugerencia: 'Toma la foto de perfil lateral, con el teléfono en horizontal y la vaca completa en el cuadro',
+  },
+};
+
+const issue = (check: QualityCheck): QualityIssue => ({ check, ...ISSUES[check] });
+
+// Luminancia (0-255) de una copia reducida de la foto, fila por fila
+const sampleLuminance = async (file: File) => {
+  const bitmap = await createImageBitmap(file);
+  const scale = Math.min(1, SAMPLE_LONG_EDGE / Math.max(bitmap.width, bitmap.height));
+  const width = Math.max(1, Math.round(bitmap.width * scale));
+  const height = Math.max(1, Math.round(bitmap.height * scale));
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const context = canvas.getContext('2d', { willReadFrequently: true });
+  context.drawImage(bitmap, 0, 0, width, height);
+  bitmap.close();
+
+  const { data } = context.getImageData(0, 0, width, height);
+  const luminance = new Float32Array(width * height);
+  for (let i = 0; i < luminance.length; i++) {
+    luminance[i] = 0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2];
+  }
+  return { luminance, width, height };
+};
+
+// Varianza del laplaciano (kernel de 4 vecinos): alta con bordes nítidos, baja en fotos movidas
+const laplacianVariance = (luminance: Float32Array, width: number, height: number) => {
+  let sum = 0;
+  let sumSquares = 0;
+  let count = 0;
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = y * width + x;
+      const value =
+        luminance[i - width] + luminance[i + width] + luminance[i - 1] + luminance[i + 1] - 4 * luminance[i];
+      sum += value;
+      sumSquares += value * value;
+      count++;
+    }
+  }
+  if (!count) return 0;
+  const mean = sum / count;
+  return sumSquares / count - mean * mean;
+};
+
+const exposure = (luminance: Float32Array) => {
+  let total = 0;
+  let dark = 0;
+  let bright = 0;
+  for (const value of luminance) {
+    total += value;
+    if (value < 20) dark++;
+    if (value > 245) bright++;
+  }
+  return {
+    brillo: total / luminance.length,
+    oscuros: dark / luminance.length,
+    claros: bright / luminance.length,
+  };
+};
+
+// Revisa la foto en el dispositivo antes de enviarla, para repetirla sin esperar a la IA
+export const checkPhotoQuality = async ({ file, width, height }: PreparedImage): Promise<QualityIssue[]> => {
+  const issues: QualityIssue[] = [];
+
+  if (Math.max(width, height) < MIN_LONG_EDGE) issues.push(issue('baja-resolucion'));
+  if (height > width) issues.push(issue('vertical'));
+
+  const sample = await sampleLuminance(file);
+  if (laplacianVariance(sample.luminance, sample.width, sample.height) < MIN_SHARPNESS) {
+    issues.push(issue('borrosa'));
+  }
+
+  const { brillo, oscuros, claros } = exposure(sample.luminance);
+  if (brillo < MIN_BRIGHTNESS || oscuros > MAX_CLIPPED) issues.push(issue('oscura'));
+  else if (brillo > MAX_BRIGHTNESS || claros > MAX_CLIPPED) issues.push(issue('sobreexpuesta'));
+
+  return issues;
+};
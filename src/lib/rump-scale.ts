@@ -0,0 +1,2 @@
+// La escala vive junto a las edge functions para que Deno la pueda desplegar; la app la reexporta
+export * from '../../supabase/functions/_shared/rump-scale.ts';
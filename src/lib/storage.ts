@@ -0,0 +1,43 @@
+import { supabase } from '@/integrations/supabase/client';
+
+export const IMAGES_BUCKET = 'vacas';
+
+// Duración de las URLs firmadas para mostrar fotos (el bucket es privado)
+export const SIGNED_URL_TTL_SECONDS = 60 * 60;
+
+const EXTENSIONS: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/webp': 'webp',
+  'image/heic': 'heic',
+  'image/heif': 'heif',
+};
+
+// Sube la foto a la carpeta de la granja y devuelve la ruta que recibe la función analyze-image
+export const uploadImage = async (file: File, farmId: string) => {
+  const extension = EXTENSIONS[file.type] ?? 'jpg';
+  const path = `${farmId}/analisis/${crypto.randomUUID()}.${extension}`;
+
+  const { error } = await supabase.storage
+    .from(IMAGES_BUCKET)
+    .upload(path, file, { contentType: file.type, upsert: false });
+
+  if (error) throw error;
+  return path;
+};
+
+// Devuelve un mapa ruta → URL firmada; las rutas sin acceso quedan fuera
+export const createSignedImageUrls = async (paths: string[]) => {
+  if (paths.length === 0) return {};
+
+  const { data, error } = await supabase.storage
+    .from(IMAGES_BUCKET)
+    .createSignedUrls(paths, SIGNED_URL_TTL_SECONDS);
+
+  if (error) throw error;
+  return Object.fromEntries(
+    data
+      .filter((item) => item.signedUrl && !item.error)
+      .map((item) => [item.path, item.signedUrl]),
+  ) as Record<string, string>;
+};
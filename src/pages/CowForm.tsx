@@ -0,0 +1,205 @@
+import { useEffect } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { Loader2 } from 'lucide-react';
+import { AppHeader } from '@/components/AppHeader';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form';
+import { useCow, useSaveCow } from '@/hooks/use-cows';
+import { useToast } from '@/hooks/use-toast';
+
+const cowSchema = z.object({
+  ear_tag: z.string().trim().min(1, 'El arete es obligatorio'),
+  name: z.string().trim(),
+  breed: z.string().trim(),
+  birth_date: z.string(),
+  lactation_number: z.coerce
+    .number({ invalid_type_error: 'Ingresa un número' })
+    .int('Debe ser un número entero')
+    .min(0, 'No puede ser negativo'),
+});
+
+type CowFormValues = z.infer<typeof cowSchema>;
+
+const emptyValues: CowFormValues = {
+  ear_tag: '',
+  name: '',
+  breed: '',
+  birth_date: '',
+  lactation_number: 0,
+};
+
+const CowForm = () => {
+  const { id } = useParams<{ id: string }>();
+  const isEditing = !!id;
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const { data: cow, isLoading } = useCow(id);
+  const saveCow = useSaveCow();
+
+  const form = useForm<CowFormValues>({
+    resolver: zodResolver(cowSchema),
+    defaultValues: emptyValues,
+  });
+
+  useEffect(() => {
+    if (cow) {
+      form.reset({
+        ear_tag: cow.ear_tag,
+        name: cow.name ?? '',
+        breed: cow.breed ?? '',
+        birth_date: cow.birth_date ?? '',
+        lactation_number: cow.lactation_number,
+      });
+    }
+  }, [cow, form]);
+
+  const onSubmit = (values: CowFormValues) => {
+    saveCow.mutate(
+      {
+        id,
+        values: {
+          ear_tag: values.ear_tag,
+          name: values.name || null,
+          breed: values.breed || null,
+          birth_date: values.birth_date || null,
+          lactation_number: values.lactation_number,
+        },
+      },
+      {
+        onSuccess: () => {
+          toast({
+            title: isEditing ? "Vaca actualizada" : "Vaca registrada",
+            description: `Arete ${values.ear_tag}`,
+          });
+          navigate('/vacas');
+        },
+        onError: (err) => {
+          console.error('Error saving cow:', err);
+          // 23505: violación de unicidad del arete
+          const duplicated = (err as { code?: string }).code === '23505';
+          toast({
+            title: "Error",
+            description: duplicated
+              ? `Ya existe una vaca con el arete ${values.ear_tag}`
+              : "No se pudo guardar la vaca",
+            variant: "destructive",
+          });
+        },
+      },
+    );
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-b from-[#EAD9C3] to-[#FBF5E9] flex flex-col">
+      <AppHeader title={isEditing ? "Editar Vaca" : "Nueva Vaca"} backTo="/vacas" />
+
+      <div className="flex-1 p-4 max-w-md w-full mx-auto">
+        {isEditing && isLoading ? (
+          <div className="flex justify-center py-12">
+            <Loader2 className="w-8 h-8 animate-spin text-[#7A4E32]" />
+          </div>
+        ) : (
+          <Card>
+            <CardContent className="p-6">
+              <Form {...form}>
+                <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4 font-inter">
+                  <FormField
+                    control={form.control}
+                    name="ear_tag"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Arete</FormLabel>
+                        <FormControl>
+                          <Input placeholder="Ej: 0452" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="name"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Nombre</FormLabel>
+                        <FormControl>
+                          <Input placeholder="Opcional" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="breed"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Raza</FormLabel>
+                        <FormControl>
+                          <Input placeholder="Ej: Holstein" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="birth_date"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Fecha de nacimiento</FormLabel>
+                        <FormControl>
+                          <Input type="date" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="lactation_number"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Número de lactancia</FormLabel>
+                        <FormControl>
+                          <Input type="number" min={0} step={1} {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <Button
+                    type="submit"
+                    disabled={saveCow.isPending}
+                    className="w-full bg-[#6C7E49] hover:bg-[#5d6e3c] text-[#FBF5E9] py-6 text-lg rounded-xl"
+                  >
+                    {saveCow.isPending ? (
+                      <Loader2 className="w-5 h-5 animate-spin" />
+                    ) : (
+                      'Guardar'
+                    )}
+                  </Button>
+                </form>
+              </Form>
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default CowForm;
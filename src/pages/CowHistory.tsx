@@ -0,0 +1,202 @@
+import { Link, useParams } from 'react-router-dom';
+import { format } from 'date-fns';
+import { es } from 'date-fns/locale';
+import { Loader2, Pencil } from 'lucide-react';
+import {
+  CartesianGrid,
+  Line,
+  LineChart,
+  ReferenceLine,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+  type TooltipProps,
+} from 'recharts';
+import { AppHeader } from '@/components/AppHeader';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { useCow } from '@/hooks/use-cows';
+import { useCowAnalyses } from '@/hooks/use-analyses';
+import { useSignedImageUrls } from '@/hooks/use-image-urls';
+
+type HistoryPoint = {
+  id: string;
+  fecha: string;
+  puntajeLineal: number | null;
+  anguloGrados: number | null;
+  categoria: string | null;
+  lactancia: number | null;
+  imageUrl: string | null;
+};
+
+const HistoryTooltip = ({ active, payload }: TooltipProps<number, string>) => {
+  if (!active || !payload?.length) return null;
+  const point = payload[0].payload as HistoryPoint;
+
+  return (
+    <div className="bg-white rounded-lg shadow-lg p-2 font-inter text-xs space-y-1">
+      {point.imageUrl && (
+        <img
+          src={point.imageUrl}
+          alt={`Foto del ${point.fecha}`}
+          className="w-24 h-16 object-cover rounded"
+        />
+      )}
+      <div className="font-semibold text-[#404335]">{point.fecha}</div>
+      <div>Puntaje: {point.puntajeLineal ?? '—'}</div>
+      <div>Ángulo: {point.anguloGrados != null ? `${point.anguloGrados}°` : '—'}</div>
+      {point.lactancia != null && <div>Lactancia {point.lactancia}</div>}
+    </div>
+  );
+};
+
+const CowHistory = () => {
+  const { id } = useParams<{ id: string }>();
+  const { data: cow, isLoading: isLoadingCow } = useCow(id);
+  const { data: analyses, isLoading: isLoadingAnalyses } = useCowAnalyses(id);
+  const { data: imageUrls } = useSignedImageUrls((analyses ?? []).map((analysis) => analysis.image_path));
+
+  const points: HistoryPoint[] = (analyses ?? []).map((analysis) => ({
+    id: analysis.id,
+    fecha: format(new Date(analysis.created_at), 'dd MMM yy', { locale: es }),
+    puntajeLineal: analysis.puntaje_lineal,
+    anguloGrados: analysis.angulo_grados,
+    categoria: analysis.categoria,
+    lactancia: analysis.lactation_number,
+    imageUrl: (analysis.image_path && imageUrls?.[analysis.image_path]) || null,
+  }));
+
+  // Primer punto de cada lactancia, para marcar el cambio en las gráficas
+  const lactationStarts = points.filter(
+    (point, index) => index > 0 && point.lactancia !== points[index - 1].lactancia,
+  );
+
+  const renderChart = (dataKey: 'puntajeLineal' | 'anguloGrados', color: string, domain: [number, number]) => (
+    <ResponsiveContainer width="100%" height={200}>
+      <LineChart data={points} margin={{ top: 8, right: 8, left: -20, bottom: 0 }}>
+        <CartesianGrid strokeDasharray="3 3" stroke="#EAD9C3" />
+        <XAxis dataKey="fecha" tick={{ fontSize: 11 }} />
+        <YAxis domain={domain} tick={{ fontSize: 11 }} allowDecimals={false} />
+        <Tooltip content={<HistoryTooltip />} />
+        {lactationStarts.map((point) => (
+          <ReferenceLine
+            key={point.id}
+            x={point.fecha}
+            stroke="#7A4E32"
+            strokeDasharray="4 4"
+            label={{ value: `L${point.lactancia ?? '?'}`, position: 'top', fontSize: 10 }}
+          />
+        ))}
+        <Line
+          type="monotone"
+          dataKey={dataKey}
+          stroke={color}
+          strokeWidth={2}
+          dot={{ r: 4 }}
+          connectNulls
+        />
+      </LineChart>
+    </ResponsiveContainer>
+  );
+
+  const isLoading = isLoadingCow || isLoadingAnalyses;
+
+  return (
+    <div className="min-h-screen bg-gradient-to-b from-[#EAD9C3] to-[#FBF5E9] flex flex-col">
+      <AppHeader
+        title={cow ? `Vaca ${cow.ear_tag}` : 'Historial'}
+        backTo="/vacas"
+        actions={
+          id && (
+            <Button
+              asChild
+              variant="ghost"
+              size="sm"
+              className="text-[#FBF5E9] hover:bg-[#FBF5E9]/10"
+            >
+              <Link to={`/vacas/${id}/editar`} aria-label="Editar vaca">
+                <Pencil className="w-5 h-5" />
+              </Link>
+            </Button>
+          )
+        }
+      />
+
+      <div className="flex-1 p-4 space-y-4 max-w-md w-full mx-auto">
+        {isLoading ? (
+          <div className="flex justify-center py-12">
+            <Loader2 className="w-8 h-8 animate-spin text-[#7A4E32]" />
+          </div>
+        ) : (
+          <>
+            {cow && (
+              <div className="text-sm text-[#5A5751] font-inter">
+                {[cow.name, cow.breed, `Lactancia actual ${cow.lactation_number}`].filter(Boolean).join(' · ')}
+              </div>
+            )}
+
+            {points.length === 0 ? (
+              <Card>
+                <CardContent className="p-6 text-center text-[#5A5751] font-inter">
+                  Esta vaca aún no tiene análisis registrados
+                </CardContent>
+              </Card>
+            ) : (
+              <>
+                <Card>
+                  <CardContent className="p-4">
+                    <h3 className="font-serif font-bold text-[#404335] mb-2">Puntaje Lineal</h3>
+                    {renderChart('puntajeLineal', '#6C7E49', [1, 9])}
+                  </CardContent>
+                </Card>
+
+                <Card>
+                  <CardContent className="p-4">
+                    <h3 className="font-serif font-bold text-[#404335] mb-2">Ángulo de anca (°)</h3>
+                    {renderChart('anguloGrados', '#7A4E32', [0, 45])}
+                  </CardContent>
+                </Card>
+
+                <Card>
+                  <CardContent className="p-4 space-y-3">
+                    <h3 className="font-serif font-bold text-[#404335]">Evaluaciones</h3>
+                    {[...points].reverse().map((point) => (
+                      <div key={point.id} className="flex items-center gap-3 font-inter text-sm">
+                        {point.imageUrl ? (
+                          <img
+                            src={point.imageUrl}
+                            alt={`Foto del ${point.fecha}`}
+                            className="w-16 h-12 object-cover rounded"
+                            loading="lazy"
+                          />
+                        ) : (
+                          <div className="w-16 h-12 rounded bg-muted" />
+                        )}
+                        <div className="flex-1">
+                          <div className="font-semibold text-[#404335]">{point.fecha}</div>
+                          <div className="text-muted-foreground">
+                            {point.categoria}
+                            {point.lactancia != null && ` · Lactancia ${point.lactancia}`}
+                          </div>
+                        </div>
+                        <div className="text-right">
+                          <div className="font-serif font-bold text-lg text-[#6C7E49]">{point.puntajeLineal}</div>
+                          {point.anguloGrados != null && (
+                            <div className="text-xs text-muted-foreground">{point.anguloGrados}°</div>
+                          )}
+                        </div>
+                      </div>
+                    ))}
+                  </CardContent>
+                </Card>
+              </>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default CowHistory;
@@ -0,0 +1,140 @@
+import { Link } from 'react-router-dom';
+import { Plus, Pencil, Trash2, Loader2 } from 'lucide-react';
+import { AppHeader } from '@/components/AppHeader';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+import { useCows, useDeleteCow, type Cow } from '@/hooks/use-cows';
+import { useToast } from '@/hooks/use-toast';
+
+const Cows = () => {
+  const { data: cows, isLoading, error } = useCows();
+  const deleteCow = useDeleteCow();
+  const { toast } = useToast();
+
+  const handleDelete = (cow: Cow) => {
+    deleteCow.mutate(cow.id, {
+      onSuccess: () => {
+        toast({
+          title: "Vaca eliminada",
+          description: `Se eliminó el arete ${cow.ear_tag} del registro`,
+        });
+      },
+      onError: (err) => {
+        console.error('Error deleting cow:', err);
+        toast({
+          title: "Error",
+          description: "No se pudo eliminar la vaca",
+          variant: "destructive",
+        });
+      },
+    });
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-b from-[#EAD9C3] to-[#FBF5E9] flex flex-col">
+      <AppHeader
+        title="Mis Vacas"
+        backTo="/"
+        actions={
+          <Button
+            asChild
+            variant="ghost"
+            size="sm"
+            className="text-[#FBF5E9] hover:bg-[#FBF5E9]/10"
+          >
+            <Link to="/vacas/nueva" aria-label="Registrar vaca">
+              <Plus className="w-5 h-5" />
+            </Link>
+          </Button>
+        }
+      />
+
+      <div className="flex-1 p-4 space-y-3 max-w-md w-full mx-auto">
+        {isLoading && (
+          <div className="flex justify-center py-12">
+            <Loader2 className="w-8 h-8 animate-spin text-[#7A4E32]" />
+          </div>
+        )}
+
+        {error && (
+          <p className="text-center text-[#C35E38] font-inter">
+            No se pudo cargar el registro de vacas
+          </p>
+        )}
+
+        {cows?.length === 0 && (
+          <Card>
+            <CardContent className="p-6 text-center space-y-4">
+              <p className="text-[#5A5751] font-inter">
+                Aún no tienes vacas registradas
+              </p>
+              <Button asChild className="bg-[#6C7E49] hover:bg-[#5d6e3c] text-[#FBF5E9]">
+                <Link to="/vacas/nueva">Registrar primera vaca</Link>
+              </Button>
+            </CardContent>
+          </Card>
+        )}
+
+        {cows?.map((cow) => (
+          <Card key={cow.id}>
+            <CardContent className="p-4 flex items-center gap-3">
+              <Link to={`/vacas/${cow.id}`} className="flex-1 min-w-0 font-inter">
+                <div className="font-serif font-bold text-[#404335] truncate">
+                  {cow.ear_tag}
+                  {cow.name && <span className="font-inter font-normal text-[#5A5751]"> · {cow.name}</span>}
+                </div>
+                <div className="text-sm text-muted-foreground">
+                  {[cow.breed, `Lactancia ${cow.lactation_number}`].filter(Boolean).join(' · ')}
+                </div>
+              </Link>
+
+              <Button asChild variant="ghost" size="sm" aria-label={`Editar ${cow.ear_tag}`}>
+                <Link to={`/vacas/${cow.id}/editar`}>
+                  <Pencil className="w-4 h-4" />
+                </Link>
+              </Button>
+
+              <AlertDialog>
+                <AlertDialogTrigger asChild>
+                  <Button variant="ghost" size="sm" aria-label={`Eliminar ${cow.ear_tag}`}>
+                    <Trash2 className="w-4 h-4 text-[#C35E38]" />
+                  </Button>
+                </AlertDialogTrigger>
+                <AlertDialogContent>
+                  <AlertDialogHeader>
+                    <AlertDialogTitle>¿Eliminar la vaca {cow.ear_tag}?</AlertDialogTitle>
+                    <AlertDialogDescription>
+                      Sus análisis se conservarán pero quedarán sin vaca asignada.
+                    </AlertDialogDescription>
+                  </AlertDialogHeader>
+                  <AlertDialogFooter>
+                    <AlertDialogCancel>Cancelar</AlertDialogCancel>
+                    <AlertDialogAction
+                      onClick={() => handleDelete(cow)}
+                      className="bg-[#C35E38] hover:bg-[#a94f2f]"
+                    >
+                      Eliminar
+                    </AlertDialogAction>
+                  </AlertDialogFooter>
+                </AlertDialogContent>
+              </AlertDialog>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default Cows;
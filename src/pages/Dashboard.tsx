@@ -0,0 +1,166 @@
+import { useState } from 'react';
+import { endOfDay, format, startOfDay } from 'date-fns';
+import { es } from 'date-fns/locale';
+import type { DateRange } from 'react-day-picker';
+import { CalendarIcon, Loader2, X } from 'lucide-react';
+import {
+  Bar,
+  BarChart,
+  CartesianGrid,
+  Cell,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from 'recharts';
+import { AppHeader } from '@/components/AppHeader';
+import { Button } from '@/components/ui/button';
+import { Calendar } from '@/components/ui/calendar';
+import { Card, CardContent } from '@/components/ui/card';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { useHerdScoreCounts } from '@/hooks/use-analyses';
+import { CATEGORIAS } from '@/lib/analyses';
+import { CATEGORY_COLORS } from '@/lib/rump-scale';
+
+const SCORES = [1, 2, 3, 4, 5, 6, 7, 8, 9];
+
+const formatRange = (range?: DateRange) => {
+  if (!range?.from) return 'Todo el historial';
+  const from = format(range.from, 'dd MMM yyyy', { locale: es });
+  if (!range.to) return `Desde ${from}`;
+  return `${from} – ${format(range.to, 'dd MMM yyyy', { locale: es })}`;
+};
+
+const Dashboard = () => {
+  const [range, setRange] = useState<DateRange | undefined>();
+  const { data: counts, isLoading, error } = useHerdScoreCounts({
+    from: range?.from ? startOfDay(range.from) : undefined,
+    to: range?.to ? endOfDay(range.to) : range?.from ? endOfDay(range.from) : undefined,
+  });
+
+  // Cada fila es un par puntaje/categoría con su cantidad de análisis
+  const sumWhere = (matches: (row: NonNullable<typeof counts>[number]) => boolean) =>
+    counts?.filter(matches).reduce((sum, row) => sum + row.total, 0) ?? 0;
+
+  const scoreDistribution = SCORES.map((score) => ({
+    puntaje: score,
+    vacas: sumWhere((row) => row.puntaje_lineal === score),
+  }));
+
+  const categoryCounts = CATEGORIAS.map((categoria) => ({
+    categoria,
+    vacas: sumWhere((row) => row.categoria === categoria),
+  }));
+
+  const total = sumWhere(() => true);
+
+  return (
+    <div className="min-h-screen bg-gradient-to-b from-[#EAD9C3] to-[#FBF5E9] flex flex-col">
+      <AppHeader title="Rebaño" backTo="/" />
+
+      <div className="flex-1 p-4 space-y-4 max-w-md w-full mx-auto">
+        {/* Filtro por rango de fechas */}
+        <div className="flex gap-2">
+          <Popover>
+            <PopoverTrigger asChild>
+              <Button variant="outline" className="flex-1 justify-start bg-white font-inter">
+                <CalendarIcon className="w-4 h-4" />
+                {formatRange(range)}
+              </Button>
+            </PopoverTrigger>
+            <PopoverContent className="w-auto p-0" align="start">
+              <Calendar
+                mode="range"
+                selected={range}
+                onSelect={setRange}
+                locale={es}
+                disabled={{ after: new Date() }}
+                initialFocus
+              />
+            </PopoverContent>
+          </Popover>
+          {range && (
+            <Button
+              variant="outline"
+              size="icon"
+              className="bg-white"
+              onClick={() => setRange(undefined)}
+              aria-label="Quitar filtro de fechas"
+            >
+              <X className="w-4 h-4" />
+            </Button>
+          )}
+        </div>
+
+        {isLoading ? (
+          <div className="flex justify-center py-12">
+            <Loader2 className="w-8 h-8 animate-spin text-[#7A4E32]" />
+          </div>
+        ) : error ? (
+          <p className="text-center text-[#C35E38] font-inter">
+            No se pudieron cargar los análisis del rebaño
+          </p>
+        ) : (
+          <>
+            <Card className="shadow-lg">
+              <CardContent className="p-6 text-center">
+                <div className="text-5xl font-serif font-bold text-[#6C7E49]">{total}</div>
+                <div className="text-sm text-[#5A5751] font-inter">Análisis válidos en el período</div>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardContent className="p-4">
+                <h3 className="font-serif font-bold text-[#404335] mb-2">Distribución del Puntaje Lineal</h3>
+                <ResponsiveContainer width="100%" height={220}>
+                  <BarChart data={scoreDistribution} margin={{ top: 8, right: 8, left: -20, bottom: 0 }}>
+                    <CartesianGrid strokeDasharray="3 3" stroke="#EAD9C3" />
+                    <XAxis dataKey="puntaje" tick={{ fontSize: 11 }} />
+                    <YAxis allowDecimals={false} tick={{ fontSize: 11 }} />
+                    <Tooltip formatter={(value) => [value, 'Análisis']} labelFormatter={(label) => `Puntaje ${label}`} />
+                    <Bar dataKey="vacas" fill="#6C7E49" radius={[4, 4, 0, 0]} />
+                  </BarChart>
+                </ResponsiveContainer>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardContent className="p-4">
+                <h3 className="font-serif font-bold text-[#404335] mb-2">Por Categoría</h3>
+                <ResponsiveContainer width="100%" height={220}>
+                  <BarChart data={categoryCounts} layout="vertical" margin={{ top: 0, right: 16, left: 16, bottom: 0 }}>
+                    <CartesianGrid strokeDasharray="3 3" stroke="#EAD9C3" />
+                    <XAxis type="number" allowDecimals={false} tick={{ fontSize: 11 }} />
+                    <YAxis type="category" dataKey="categoria" width={90} tick={{ fontSize: 11 }} />
+                    <Tooltip formatter={(value) => [value, 'Análisis']} />
+                    <Bar dataKey="vacas" radius={[0, 4, 4, 0]}>
+                      {categoryCounts.map((entry) => (
+                        <Cell key={entry.categoria} fill={CATEGORY_COLORS[entry.categoria].fill} />
+                      ))}
+                    </Bar>
+                  </BarChart>
+                </ResponsiveContainer>
+
+                <div className="mt-4 space-y-1 font-inter text-sm">
+                  {categoryCounts.map((entry) => (
+                    <div key={entry.categoria} className="flex justify-between">
+                      <span className="text-muted-foreground">{entry.categoria}</span>
+                      <span>
+                        {entry.vacas}
+                        {total > 0 && (
+                          <span className="text-muted-foreground"> ({Math.round((entry.vacas / total) * 100)}%)</span>
+                        )}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              </CardContent>
+            </Card>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default Dashboard;
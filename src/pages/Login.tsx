@@ -0,0 +1,93 @@
+import { useState } from 'react';
+import { Navigate } from 'react-router-dom';
+import { Loader2, Mail } from 'lucide-react';
+import { Card, CardContent } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Button } from '@/components/ui/button';
+import { useAuth } from '@/hooks/use-auth';
+import { useToast } from '@/hooks/use-toast';
+import logo from '@/assets/Logo.png';
+
+const Login = () => {
+  const { session, signInWithEmail } = useAuth();
+  const { toast } = useToast();
+  const [email, setEmail] = useState('');
+  const [isSending, setIsSending] = useState(false);
+  const [sentTo, setSentTo] = useState<string | null>(null);
+
+  if (session) {
+    return <Navigate to="/" replace />;
+  }
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    const address = email.trim();
+    if (!address) return;
+
+    setIsSending(true);
+    try {
+      await signInWithEmail(address);
+      setSentTo(address);
+    } catch (err) {
+      console.error('Error sending magic link:', err);
+      toast({
+        title: "Error",
+        description: "No se pudo enviar el enlace de acceso. Inténtalo de nuevo",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-b from-[#EAD9C3] to-[#FBF5E9] flex flex-col items-center justify-center p-6">
+      <div className="flex items-center mb-8">
+        <img src={logo} alt="Rumpex AI Logo" className="w-12 h-12 mr-3 object-contain" />
+        <h1 className="text-3xl font-serif font-bold text-[#404335]">Rumpex AI</h1>
+      </div>
+
+      <Card className="w-full max-w-sm">
+        <CardContent className="p-6">
+          {sentTo ? (
+            <div className="text-center space-y-3 font-inter">
+              <Mail className="w-12 h-12 mx-auto text-[#6C7E49]" />
+              <h2 className="text-xl font-serif font-bold text-[#404335]">Revisa tu correo</h2>
+              <p className="text-sm text-[#5A5751]">
+                Enviamos un enlace de acceso a <strong>{sentTo}</strong>. Ábrelo desde este dispositivo para entrar.
+              </p>
+              <Button variant="link" onClick={() => setSentTo(null)} className="text-[#7A4E32]">
+                Usar otro correo
+              </Button>
+            </div>
+          ) : (
+            <form onSubmit={handleSubmit} className="space-y-4 font-inter">
+              <div className="space-y-2">
+                <Label htmlFor="email">Correo electrónico</Label>
+                <Input
+                  id="email"
+                  type="email"
+                  autoComplete="email"
+                  placeholder="tu@granja.com"
+                  value={email}
+                  onChange={(e) => setEmail(e.target.value)}
+                  required
+                />
+              </div>
+              <Button
+                type="submit"
+                disabled={isSending}
+                className="w-full bg-[#6C7E49] hover:bg-[#5d6e3c] text-[#FBF5E9] py-6 text-lg rounded-xl"
+              >
+                {isSending ? <Loader2 className="w-5 h-5 animate-spin" /> : 'Enviar enlace de acceso'}
+              </Button>
+            </form>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default Login;
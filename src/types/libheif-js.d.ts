@@ -0,0 +1,25 @@
+// libheif-js solo publica los tipos del módulo Emscripten; aquí va la API de alto nivel que usa la app
+declare module 'libheif-js/libheif-wasm/libheif-bundle.mjs' {
+  export type HeifDisplayData = {
+    data: Uint8ClampedArray;
+    width: number;
+    height: number;
+  };
+
+  export interface HeifImage {
+    get_width(): number;
+    get_height(): number;
+    display(target: HeifDisplayData, callback: (result: HeifDisplayData | null) => void): void;
+    free(): void;
+  }
+
+  export interface HeifDecoder {
+    decode(buffer: ArrayBuffer | Uint8Array): HeifImage[];
+  }
+
+  export type LibHeif = {
+    HeifDecoder: new () => HeifDecoder;
+  };
+
+  export default function libheif(options?: Record<string, unknown>): LibHeif;
+}
@@ -0,0 +1,66 @@
+// Escala del ángulo de anca compartida por la edge function y la app web.
+// Ángulo → puntaje lineal 1-9 → categoría → color. No importa nada para poder usarse desde Deno y Vite.
+
+export const CATEGORIAS = ['Alto', 'Nivelado', 'Ligera caída', 'Intermedio', 'Pronunciada'] as const;
+
+export type Categoria = typeof CATEGORIAS[number];
+
+export type ScoreBand = {
+  puntajes: number[];
+  // Límites en grados; el inferior queda excluido de la banda. null = sin límite
+  anguloMin: number | null;
+  anguloMax: number | null;
+  categoria: Categoria;
+  descripcion: string;
+  evaluacion: string;
+};
+
+// De la anca más caída a la más alta
+export const SCORE_BANDS: ScoreBand[] = [
+  { puntajes: [1, 2], anguloMin: 35, anguloMax: null, categoria: 'Pronunciada', descripcion: 'Anca muy caída', evaluacion: 'Defecto severo' },
+  { puntajes: [3, 4], anguloMin: 25, anguloMax: 35, categoria: 'Intermedio', descripcion: 'Anca pronunciadamente caída', evaluacion: 'Defecto moderado' },
+  { puntajes: [5, 6], anguloMin: 15, anguloMax: 25, categoria: 'Ligera caída', descripcion: 'Anca intermedia/ligera caída', evaluacion: 'Aceptable' },
+  { puntajes: [7, 8], anguloMin: 5, anguloMax: 15, categoria: 'Nivelado', descripcion: 'Anca nivelada/alta', evaluacion: 'Deseable' },
+  { puntajes: [9], anguloMin: null, anguloMax: 5, categoria: 'Alto', descripcion: 'Anca muy alta', evaluacion: 'Excelente' },
+];
+
+// Clases de texto para la app y colores de relleno para las gráficas
+export const CATEGORY_COLORS: Record<Categoria, { text: string; fill: string }> = {
+  'Alto': { text: 'text-green-600', fill: '#16a34a' },
+  'Nivelado': { text: 'text-green-500', fill: '#22c55e' },
+  'Ligera caída': { text: 'text-yellow-500', fill: '#eab308' },
+  'Intermedio': { text: 'text-orange-500', fill: '#f97316' },
+  'Pronunciada': { text: 'text-red-600', fill: '#dc2626' },
+};
+
+export const isCategoria = (value: unknown): value is Categoria =>
+  CATEGORIAS.includes(value as Categoria);
+
+export const bandForAngle = (angle: number) =>
+  SCORE_BANDS.find((band) => band.anguloMin == null || angle > band.anguloMin)!;
+
+export const bandForScore = (score: number) =>
+  SCORE_BANDS.find((band) => band.puntajes.includes(score));
+
+// Las bandas de dos puntajes se parten por la mitad; la primera, abierta, a 10° de su límite
+export const scoreFromAngle = (angle: number) => {
+  const band = bandForAngle(angle);
+  if (band.puntajes.length === 1) return band.puntajes[0];
+
+  const split = band.anguloMax != null ? (band.anguloMin! + band.anguloMax) / 2 : band.anguloMin! + 10;
+  return angle >= split ? band.puntajes[0] : band.puntajes[1];
+};
+
+export const categoryFromScore = (score: number): Categoria | null =>
+  bandForScore(score)?.categoria ?? null;
+
+export const formatBandRange = ({ anguloMin, anguloMax }: ScoreBand) => {
+  if (anguloMin == null) return `<${anguloMax}°`;
+  if (anguloMax == null) return `>${anguloMin}°`;
+  return `${anguloMin}-${anguloMax}°`;
+};
+
+// Texto de la escala para los prompts, para que el modelo use las mismas bandas que la app
+export const SCORE_SCALE_TEXT = SCORE_BANDS.map(
+  (band) => `- ${band.puntajes.join('-')}: ${band.descripcion} (${formatBandRange(band)}) - ${band.evaluacion}`,
+).join('\n');
@@ -0,0 +1,21 @@
+// Orígenes permitidos separados por comas, p. ej. "https://rumpex.app,http://localhost:8080".
+// Sin configurar solo se acepta el servidor de desarrollo de Vite.
+const DEFAULT_ALLOWED_ORIGINS = 'http://localhost:8080';
+
+const getAllowedOrigins = () =>
+  (Deno.env.get('ALLOWED_ORIGINS') ?? DEFAULT_ALLOWED_ORIGINS)
+    .split(',')
+    .map((origin) => origin.trim().replace(/\/+$/, ''))
+    .filter(Boolean);
+
+// Las peticiones sin Origin no vienen de un navegador y CORS no aplica
+export const isOriginAllowed = (origin: string | null) =>
+  origin === null || getAllowedOrigins().includes(origin);
+
+export const buildCorsHeaders = (origin: string | null): Record<string, string> => ({
+  ...(origin ? { 'Access-Control-Allow-Origin': origin } : {}),
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+  'Access-Control-Expose-Headers': 'retry-after',
+  'Vary': 'Origin',
+});
@@ -0,0 +1,451 @@
+import { deepStrictEqual as assertEquals, ok } from "node:assert/strict";
+import { handleRequest } from "./handler.ts";
+import { getClientIp } from "./limits.ts";
+
+// Run with: npm test (usa el Deno fijado en devDependencies)
+
+const IMAGE = 'data:image/jpeg;base64,/9j/4AAQSkZJRgABAQAAAQABAAD/2wBDAA==';
+
+const VALID_RESULT = {
+  valido: true,
+  razonInvalidez: null,
+  numeroVacasDetectadas: 1,
+  vacaAnalizada: 1,
+  anguloGrados: 12,
+  diferenciaAlturaCm: 4.5,
+  puntajeLineal: 7,
+  categoria: 'Nivelado',
+  recomendacion: 'Buena conformación del anca.',
+};
+
+const ACCESS_TOKEN = 'test-access-token';
+const FARM_ID = '6f1c2a9e-0000-4000-8000-000000000001';
+
+// Respuestas por defecto de las funciones SQL llamadas vía /rest/v1/rpc
+const DEFAULT_RPC: Record<string, unknown> = {
+  hit_rate_limit: [{ allowed: true, retry_after_seconds: 60 }],
+  is_farm_member: true,
+  consume_farm_quota: [{ allowed: true, used: 1, quota: 300, retry_after_seconds: 0 }],
+  refund_farm_quota: null,
+};
+
+// Fotos del bucket vacas que sirve el servidor de prueba, por ruta
+const STORED_IMAGES: Record<string, { type: string; body: string }> = {
+  [`${FARM_ID}/analisis/vaca.webp`]: { type: 'image/webp', body: 'RIFF' },
+};
+
+const countCalls = (rpcCalls: string[], name: string) => rpcCalls.filter((call) => call === name).length;
+
+const ENV_KEYS = [
+  'VISION_PROVIDER',
+  'GOOGLE_API_KEY',
+  'GEMINI_API_BASE_URL',
+  'GEMINI_MODEL',
+  'SUPABASE_URL',
+  'SUPABASE_ANON_KEY',
+  'SUPABASE_SERVICE_ROLE_KEY',
+  'ALLOWED_ORIGINS',
+];
+
+// Levanta un servidor local que responde como la API de Gemini (y como Supabase Auth y PostgREST)
+// y limpia el entorno al terminar
+const withStubModel = async (
+  stub: (req: Request) => Response | Promise<Response>,
+  run: (requests: string[], rpcCalls: string[]) => Promise<void>,
+  env: Record<string, string | undefined> = { GOOGLE_API_KEY: 'test-key' },
+  rpc: Record<string, unknown> = {},
+) => {
+  const requests: string[] = [];
+  const rpcCalls: string[] = [];
+  const controller = new AbortController();
+  const server = Deno.serve(
+    { port: 0, signal: controller.signal, onListen: () => {} },
+    async (req) => {
+      const { pathname } = new URL(req.url);
+      if (pathname.startsWith('/rest/v1/rpc/')) {
+        const name = pathname.slice('/rest/v1/rpc/'.length);
+        rpcCalls.push(name);
+        return Response.json({ ...DEFAULT_RPC, ...rpc }[name] ?? null);
+      }
+      if (pathname.startsWith('/storage/v1/object/vacas/')) {
+        const stored = STORED_IMAGES[decodeURIComponent(pathname.slice('/storage/v1/object/vacas/'.length))];
+        return stored
+          ? new Response(stored.body, { headers: { 'Content-Type': stored.type } })
+          : Response.json({ statusCode: '404', error: 'not_found', message: 'Object not found' }, { status: 400 });
+      }
+      if (pathname === '/auth/v1/user') {
+        return req.headers.get('Authorization') === `Bearer ${ACCESS_TOKEN}`
+          ? Response.json({ id: 'user-1', aud: 'authenticated', role: 'authenticated', email: 'vet@granja.test' })
+          : Response.json({ message: 'invalid JWT' }, { status: 401 });
+      }
+      requests.push(await req.clone().text());
+      return stub(req);
+    },
+  );
+  const { port } = server.addr as Deno.NetAddr;
+
+  const previous = Object.fromEntries(ENV_KEYS.map((key) => [key, Deno.env.get(key)]));
+  ENV_KEYS.forEach((key) => Deno.env.delete(key));
+  Deno.env.set('GEMINI_API_BASE_URL', `http://localhost:${port}`);
+  Deno.env.set('SUPABASE_URL', `http://localhost:${port}`);
+  Deno.env.set('SUPABASE_ANON_KEY', 'test-anon-key');
+  Deno.env.set('SUPABASE_SERVICE_ROLE_KEY', 'test-service-role-key');
+  for (const [key, value] of Object.entries(env)) {
+    if (value !== undefined) Deno.env.set(key, value);
+  }
+
+  try {
+    await run(requests, rpcCalls);
+  } finally {
+    controller.abort();
+    await server.finished;
+    for (const [key, value] of Object.entries(previous)) {
+      if (value === undefined) Deno.env.delete(key);
+      else Deno.env.set(key, value);
+    }
+  }
+};
+
+const geminiResponse = (text: string) =>
+  Response.json({ candidates: [{ content: { parts: [{ text }] } }] });
+
+const analyze = (body: Record<string, unknown>, token: string | null = ACCESS_TOKEN) =>
+  handleRequest(new Request('http://localhost/analyze-image', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      ...(token ? { Authorization: `Bearer ${token}` } : {}),
+    },
+    body: JSON.stringify({ farmId: FARM_ID, ...body }),
+  }));
+
+Deno.test('returns 401 without a valid user session', async () => {
+  await withStubModel(() => geminiResponse('{}'), async (requests) => {
+    const missing = await analyze({ image: IMAGE }, null);
+    assertEquals(missing.status, 401);
+    await missing.body?.cancel();
+
+    const invalid = await analyze({ image: IMAGE }, 'expired-token');
+    assertEquals(invalid.status, 401);
+    assertEquals((await invalid.json()).code, 'UNAUTHORIZED');
+    assertEquals(requests.length, 0);
+  });
+});
+
+Deno.test('returns 400 when no image is sent', async () => {
+  await withStubModel(() => geminiResponse('{}'), async (requests) => {
+    const response = await analyze({});
+    assertEquals(response.status, 400);
+    assertEquals((await response.json()).error, 'Image is required');
+    assertEquals(requests.length, 0);
+  });
+});
+
+Deno.test('returns 500 when GOOGLE_API_KEY is missing', async () => {
+  await withStubModel(() => geminiResponse('{}'), async (requests) => {
+    const response = await analyze({ image: IMAGE });
+    assertEquals(response.status, 500);
+    assertEquals((await response.json()).error, 'Google API key not configured');
+    assertEquals(requests.length, 0);
+  }, {});
+});
+
+Deno.test('passes upstream errors through with their status', async () => {
+  await withStubModel(() => new Response('quota exceeded', { status: 429 }), async () => {
+    const response = await analyze({ image: IMAGE });
+    assertEquals(response.status, 429);
+    const body = await response.json();
+    assertEquals(body.error, 'Error from Gemini API');
+    assertEquals(body.details, 'quota exceeded');
+  });
+});
+
+Deno.test('returns 500 when the model response has no candidates', async () => {
+  await withStubModel(() => Response.json({ promptFeedback: { blockReason: 'SAFETY' } }), async () => {
+    const response = await analyze({ image: IMAGE });
+    assertEquals(response.status, 500);
+    assertEquals((await response.json()).error, 'No valid response from Gemini API');
+  });
+});
+
+Deno.test('returns MALFORMED_MODEL_RESPONSE when the model output is not valid JSON', async () => {
+  await withStubModel(() => geminiResponse('La vaca tiene un anca nivelada'), async () => {
+    const response = await analyze({ image: IMAGE });
+    assertEquals(response.status, 502);
+    assertEquals((await response.json()).code, 'MALFORMED_MODEL_RESPONSE');
+  });
+});
+
+Deno.test('returns the validated analysis for a valid model response', async () => {
+  await withStubModel(() => geminiResponse(JSON.stringify(VALID_RESULT)), async (requests) => {
+    const response = await analyze({ image: IMAGE, prompt: 'anca-tecnico' });
+    assertEquals(response.status, 200);
+
+    const body = await response.json();
+    assertEquals(body.puntajeLineal, 7);
+    assertEquals(body.categoria, 'Nivelado');
+    assertEquals(body.modelo, 'gemini-1.5-flash');
+    assertEquals(body.prompt, 'anca-tecnico@v4');
+    assertEquals(body.schemaVersion, 2);
+    assertEquals(body.anguloGrados, 12);
+    assertEquals(body.diferenciaAlturaCm, 4.5);
+
+    assertEquals(requests.length, 1);
+    const sent = JSON.parse(requests[0]);
+    assertEquals(sent.contents[0].parts[1].inline_data.mime_type, 'image/jpeg');
+  });
+});
+
+Deno.test('returns 415 for image types the model does not accept', async () => {
+  await withStubModel(() => geminiResponse(JSON.stringify(VALID_RESULT)), async (requests, rpcCalls) => {
+    const response = await analyze({ image: 'data:image/gif;base64,R0lGODlhAQABAAAAACw=' });
+    assertEquals(response.status, 415);
+    assertEquals((await response.json()).code, 'UNSUPPORTED_MEDIA_TYPE');
+    assertEquals(requests.length, 0);
+    assertEquals(countCalls(rpcCalls, 'consume_farm_quota'), 0);
+  });
+});
+
+Deno.test('passes PNG and HEIC images to the model with their own MIME type', async () => {
+  await withStubModel(() => geminiResponse(JSON.stringify(VALID_RESULT)), async (requests) => {
+    for (const type of ['image/png', 'image/heic']) {
+      const response = await analyze({ image: `data:${type};base64,AAAA` });
+      assertEquals(response.status, 200);
+      await response.body?.cancel();
+    }
+
+    const mimeTypes = requests.map((request) => JSON.parse(request).contents[0].parts[1].inline_data);
+    assertEquals(mimeTypes, [
+      { mime_type: 'image/png', data: 'AAAA' },
+      { mime_type: 'image/heic', data: 'AAAA' },
+    ]);
+  });
+});
+
+Deno.test('downloads imagePath from the farm folder and sends its stored MIME type', async () => {
+  await withStubModel(() => geminiResponse(JSON.stringify(VALID_RESULT)), async (requests) => {
+    const response = await analyze({ imagePath: `${FARM_ID}/analisis/vaca.webp` });
+    assertEquals(response.status, 200);
+    await response.body?.cancel();
+
+    assertEquals(requests.length, 1);
+    const { inline_data } = JSON.parse(requests[0]).contents[0].parts[1];
+    assertEquals(inline_data, { mime_type: 'image/webp', data: btoa('RIFF') });
+  });
+});
+
+Deno.test('rejects an imagePath outside the farm folder before downloading it', async () => {
+  await withStubModel(() => geminiResponse(JSON.stringify(VALID_RESULT)), async (requests, rpcCalls) => {
+    for (const imagePath of ['analisis/vaca.webp', '6f1c2a9e-0000-4000-8000-000000000002/analisis/vaca.webp']) {
+      const response = await analyze({ imagePath });
+      assertEquals(response.status, 403);
+      assertEquals((await response.json()).code, 'FORBIDDEN');
+    }
+    assertEquals(requests.length, 0);
+    assertEquals(countCalls(rpcCalls, 'consume_farm_quota'), 0);
+  });
+});
+
+Deno.test('returns 404 when imagePath is not in storage', async () => {
+  await withStubModel(() => geminiResponse(JSON.stringify(VALID_RESULT)), async (requests) => {
+    const response = await analyze({ imagePath: `${FARM_ID}/analisis/no-existe.jpg` });
+    assertEquals(response.status, 404);
+    assertEquals((await response.json()).error, 'Image not found in storage');
+    assertEquals(requests.length, 0);
+  });
+});
+
+Deno.test('rejects prompt versions that ask for fields the response schema no longer declares', async () => {
+  await withStubModel(() => geminiResponse(JSON.stringify(VALID_RESULT)), async (requests) => {
+    const response = await analyze({ image: IMAGE, prompt: 'anca-tecnico', promptVersion: 3 });
+    assertEquals(response.status, 400);
+    assertEquals((await response.json()).error, 'Unknown prompt template');
+    assertEquals(requests.length, 0);
+  });
+});
+
+Deno.test('returns one result per detected cow', async () => {
+  const twoCows = {
+    ...VALID_RESULT,
+    numeroVacasDetectadas: 2,
+    vacas: [
+      { numero: 1, boundingBox: { x: 0.05, y: 0.2, ancho: 0.4, alto: 0.5 }, anguloGrados: 12, puntajeLineal: 7, categoria: 'Nivelado', recomendacion: null },
+      { numero: 2, boundingBox: { x: 0.55, y: 0.25, ancho: 0.4, alto: 0.5 }, anguloGrados: 30, puntajeLineal: 3, categoria: 'Intermedio', recomendacion: null },
+    ],
+  };
+  await withStubModel(() => geminiResponse(JSON.stringify(twoCows)), async () => {
+    const response = await analyze({ image: IMAGE, prompt: 'anca-tecnico' });
+    assertEquals(response.status, 200);
+
+    const body = await response.json();
+    assertEquals(body.vacas.length, 2);
+    assertEquals(body.vacas[1].puntajeLineal, 3);
+    assertEquals(body.prompt, 'anca-tecnico@v4');
+  });
+});
+
+Deno.test('wraps a single-cow response into the vacas array', async () => {
+  await withStubModel(() => geminiResponse(JSON.stringify(VALID_RESULT)), async () => {
+    const body = await (await analyze({ image: IMAGE, prompt: 'anca-basico' })).json();
+    assertEquals(body.vacas.length, 1);
+    assertEquals(body.vacas[0].numero, 1);
+    assertEquals(body.vacas[0].boundingBox, null);
+  });
+});
+
+Deno.test('returns MALFORMED_MODEL_RESPONSE when a bounding box is out of range', async () => {
+  const badBox = {
+    ...VALID_RESULT,
+    vacas: [{ numero: 1, boundingBox: { x: 120, y: 40, ancho: 300, alto: 200 }, anguloGrados: 12, puntajeLineal: 7, categoria: 'Nivelado' }],
+  };
+  await withStubModel(() => geminiResponse(JSON.stringify(badBox)), async () => {
+    const response = await analyze({ image: IMAGE });
+    assertEquals(response.status, 502);
+    assertEquals((await response.json()).code, 'MALFORMED_MODEL_RESPONSE');
+  });
+});
+
+Deno.test('returns the anatomical landmarks of each cow', async () => {
+  const puntosAnatomicos = { coxal: { x: 0.42, y: 0.31 }, isquiatica: { x: 0.18, y: 0.37 } };
+  const withLandmarks = {
+    ...VALID_RESULT,
+    puntosAnatomicos,
+    vacas: [{ numero: 1, boundingBox: null, puntosAnatomicos, anguloGrados: 12, puntajeLineal: 7, categoria: 'Nivelado', recomendacion: null }],
+  };
+  await withStubModel(() => geminiResponse(JSON.stringify(withLandmarks)), async () => {
+    const body = await (await analyze({ image: IMAGE, prompt: 'anca-tecnico' })).json();
+    assertEquals(body.puntosAnatomicos, puntosAnatomicos);
+    assertEquals(body.vacas[0].puntosAnatomicos, puntosAnatomicos);
+  });
+});
+
+Deno.test('replaces a categoria that contradicts puntajeLineal', async () => {
+  const contradictory = { ...VALID_RESULT, puntajeLineal: 2, anguloGrados: 38, categoria: 'Alto' };
+  await withStubModel(() => geminiResponse(JSON.stringify(contradictory)), async () => {
+    const body = await (await analyze({ image: IMAGE })).json();
+    assertEquals(body.categoria, 'Pronunciada');
+    assertEquals(body.vacas[0].categoria, 'Pronunciada');
+  });
+});
+
+Deno.test('maps a legacy anguloCm in the model output to anguloGrados', async () => {
+  const { anguloGrados: _anguloGrados, diferenciaAlturaCm: _diferencia, ...rest } = VALID_RESULT;
+  const legacy = { ...rest, anguloCm: 18 };
+  await withStubModel(() => geminiResponse(JSON.stringify(legacy)), async () => {
+    const body = await (await analyze({ image: IMAGE, prompt: 'anca-tecnico' })).json();
+    assertEquals(body.anguloGrados, 18);
+    assertEquals(body.diferenciaAlturaCm, null);
+    assertEquals(body.anguloCm, undefined);
+  });
+});
+
+Deno.test('mock provider answers without calling any model', async () => {
+  await withStubModel(() => geminiResponse('{}'), async (requests) => {
+    const response = await analyze({ image: IMAGE });
+    assertEquals(response.status, 200);
+    ok((await response.json()).puntajeLineal != null);
+    assertEquals(requests.length, 0);
+  }, { VISION_PROVIDER: 'mock' });
+});
+
+Deno.test('returns 429 with Retry-After when the user rate limit is exceeded', async () => {
+  await withStubModel(() => geminiResponse('{}'), async (requests) => {
+    const response = await analyze({ image: IMAGE });
+    assertEquals(response.status, 429);
+    assertEquals(response.headers.get('Retry-After'), '42');
+    assertEquals((await response.json()).code, 'RATE_LIMITED');
+    assertEquals(requests.length, 0);
+  }, undefined, { hit_rate_limit: [{ allowed: false, retry_after_seconds: 42 }] });
+});
+
+Deno.test('keys the IP rate limit on the address added by the proxy, not the one sent by the client', () => {
+  const request = (headers: Record<string, string>) => new Request('http://localhost/analyze-image', { headers });
+
+  assertEquals(getClientIp(request({ 'x-forwarded-for': '10.9.8.7, 203.0.113.5' })), '203.0.113.5');
+  assertEquals(getClientIp(request({ 'x-forwarded-for': '203.0.113.5' })), '203.0.113.5');
+  assertEquals(getClientIp(request({ 'x-real-ip': '198.51.100.2' })), '198.51.100.2');
+  assertEquals(getClientIp(request({})), 'unknown');
+});
+
+Deno.test('returns 429 when the farm monthly quota is used up', async () => {
+  await withStubModel(() => geminiResponse('{}'), async (requests) => {
+    const response = await analyze({ image: IMAGE });
+    assertEquals(response.status, 429);
+    assertEquals((await response.json()).code, 'QUOTA_EXCEEDED');
+    assertEquals(requests.length, 0);
+  }, undefined, { consume_farm_quota: [{ allowed: false, used: 300, quota: 300, retry_after_seconds: 86400 }] });
+});
+
+Deno.test('refunds the farm quota when the provider call fails', async () => {
+  await withStubModel(() => new Response('internal error', { status: 500 }), async (_requests, rpcCalls) => {
+    const response = await analyze({ image: IMAGE });
+    assertEquals(response.status, 500);
+    await response.body?.cancel();
+    assertEquals(countCalls(rpcCalls, 'consume_farm_quota'), 1);
+    assertEquals(countCalls(rpcCalls, 'refund_farm_quota'), 1);
+  });
+});
+
+Deno.test('refunds the farm quota when the model response is malformed', async () => {
+  await withStubModel(() => geminiResponse('no es JSON'), async (_requests, rpcCalls) => {
+    const response = await analyze({ image: IMAGE });
+    assertEquals((await response.json()).code, 'MALFORMED_MODEL_RESPONSE');
+    assertEquals(countCalls(rpcCalls, 'refund_farm_quota'), 1);
+  });
+});
+
+Deno.test('keeps the farm quota charged for a valid analysis', async () => {
+  await withStubModel(() => geminiResponse(JSON.stringify(VALID_RESULT)), async (_requests, rpcCalls) => {
+    const response = await analyze({ image: IMAGE });
+    assertEquals(response.status, 200);
+    await response.body?.cancel();
+    assertEquals(countCalls(rpcCalls, 'consume_farm_quota'), 1);
+    assertEquals(countCalls(rpcCalls, 'refund_farm_quota'), 0);
+  });
+});
+
+Deno.test('returns 403 for a farm the user does not belong to', async () => {
+  await withStubModel(() => geminiResponse('{}'), async (requests) => {
+    const response = await analyze({ image: IMAGE });
+    assertEquals(response.status, 403);
+    assertEquals((await response.json()).code, 'FORBIDDEN');
+    assertEquals(requests.length, 0);
+  }, undefined, { is_farm_member: false });
+});
+
+Deno.test('answers the preflight only for allowed origins', async () => {
+  await withStubModel(() => geminiResponse('{}'), async () => {
+    const preflight = (origin: string) =>
+      handleRequest(new Request('http://localhost/analyze-image', {
+        method: 'OPTIONS',
+        headers: { Origin: origin, 'Access-Control-Request-Method': 'POST' },
+      }));
+
+    const allowed = await preflight('https://rumpex.app');
+    assertEquals(allowed.status, 200);
+    assertEquals(allowed.headers.get('Access-Control-Allow-Origin'), 'https://rumpex.app');
+    await allowed.body?.cancel();
+
+    const rejected = await preflight('https://evil.example');
+    assertEquals(rejected.status, 403);
+    assertEquals(rejected.headers.get('Access-Control-Allow-Origin'), null);
+    await rejected.body?.cancel();
+  }, { GOOGLE_API_KEY: 'test-key', ALLOWED_ORIGINS: 'https://rumpex.app, http://localhost:8080' });
+});
+
+Deno.test('rejects analysis requests from disallowed origins', async () => {
+  await withStubModel(() => geminiResponse(JSON.stringify(VALID_RESULT)), async (requests) => {
+    const response = await handleRequest(new Request('http://localhost/analyze-image', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: `Bearer ${ACCESS_TOKEN}`,
+        Origin: 'https://evil.example',
+      },
+      body: JSON.stringify({ farmId: FARM_ID, image: IMAGE }),
+    }));
+    assertEquals(response.status, 403);
+    assertEquals((await response.json()).code, 'ORIGIN_NOT_ALLOWED');
+    assertEquals(requests.length, 0);
+  }, { GOOGLE_API_KEY: 'test-key', ALLOWED_ORIGINS: 'https://rumpex.app' });
+});
@@ -0,0 +1,215 @@
+import { Buffer } from "node:buffer";
+import { createClient } from "npm:@supabase/supabase-js@2.53.0";
+import { resolvePrompt } from "./prompts.ts";
+import { validateAnalysis } from "./schema.ts";
+import { getVisionProvider } from "./providers/index.ts";
+import { buildCorsHeaders, isOriginAllowed } from "./cors.ts";
+import {
+  checkIpRateLimit,
+  checkUserRateLimit,
+  consumeFarmQuota,
+  getClientIp,
+  refundFarmQuota,
+  type LimitResult,
+} from "./limits.ts";
+
+const STORAGE_BUCKET = 'vacas';
+const SUPPORTED_MIME_TYPES = ['image/png', 'image/jpeg', 'image/webp', 'image/heic', 'image/heif'];
+
+const limitExceededResponse = (
+  limit: Exclude<LimitResult, { allowed: true }>,
+  corsHeaders: Record<string, string>,
+) =>
+  new Response(JSON.stringify({
+    error: limit.error,
+    code: limit.code,
+    retryAfter: limit.retryAfter,
+  }), {
+    status: 429,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json', 'Retry-After': String(limit.retryAfter) },
+  });
+
+export const handleRequest = async (req: Request): Promise<Response> => {
+  const origin = req.headers.get('Origin');
+  if (!isOriginAllowed(origin)) {
+    console.warn('Rejected request from origin:', origin);
+    return new Response(JSON.stringify({ error: 'Origin not allowed', code: 'ORIGIN_NOT_ALLOWED' }), {
+      status: 403,
+      headers: { 'Content-Type': 'application/json', 'Vary': 'Origin' },
+    });
+  }
+
+  const corsHeaders = buildCorsHeaders(origin);
+
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const ipLimit = await checkIpRateLimit(getClientIp(req));
+    if (!ipLimit.allowed) return limitExceededResponse(ipLimit, corsHeaders);
+
+    // Require a signed-in user: the anon key alone is also a valid JWT for the gateway
+    const authHeader = req.headers.get('Authorization');
+    const supabaseAuth = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_ANON_KEY') ?? '',
+      { global: { headers: { Authorization: authHeader ?? '' } } },
+    );
+    const { data: { user }, error: authError } = authHeader
+      ? await supabaseAuth.auth.getUser()
+      : { data: { user: null }, error: null };
+
+    if (authError || !user) {
+      return new Response(JSON.stringify({ error: 'Authentication required', code: 'UNAUTHORIZED' }), {
+        status: 401,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    const userLimit = await checkUserRateLimit(user.id);
+    if (!userLimit.allowed) return limitExceededResponse(userLimit, corsHeaders);
+
+    const { image, imagePath, prompt, promptVersion, farmId } = await req.json();
+    
+    if (!image && !imagePath) {
+      return new Response(JSON.stringify({ error: 'Image is required' }), {
+        status: 400,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    // The analysis is charged to a farm the user belongs to
+    const { data: isMember } = farmId
+      ? await supabaseAuth.rpc('is_farm_member', { _farm_id: farmId })
+      : { data: false };
+    if (!isMember || (imagePath && !imagePath.startsWith(`${farmId}/`))) {
+      return new Response(JSON.stringify({ error: 'Farm not found or not accessible', code: 'FORBIDDEN' }), {
+        status: 403,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    const analysisPrompt = resolvePrompt(prompt ?? undefined, promptVersion ?? undefined);
+    if (!analysisPrompt) {
+      return new Response(JSON.stringify({ error: 'Unknown prompt template' }), {
+        status: 400,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    const selection = getVisionProvider();
+    if (!selection.ok) {
+      return new Response(JSON.stringify({ error: selection.error }), {
+        status: 500,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    let base64Data: string;
+    let mimeType: string | undefined;
+    if (imagePath) {
+      // Descargar con la sesión del usuario: las políticas del bucket limitan la ruta a su granja
+      const { data: file, error: downloadError } = await supabaseAuth.storage
+        .from(STORAGE_BUCKET)
+        .download(imagePath);
+
+      if (downloadError || !file) {
+        console.error('Storage download error:', downloadError);
+        return new Response(JSON.stringify({ error: 'Image not found in storage' }), {
+          status: 404,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        });
+      }
+
+      base64Data = Buffer.from(await file.arrayBuffer()).toString('base64');
+      mimeType = file.type;
+    } else {
+      // Read the MIME type from the data-URL header (data:image/png;base64,...)
+      const match = /^data:([^;,]+);base64,(.*)$/s.exec(image);
+      mimeType = match?.[1];
+      base64Data = match?.[2] ?? image;
+    }
+
+    mimeType = mimeType?.split(';')[0].trim().toLowerCase();
+    if (!mimeType || !SUPPORTED_MIME_TYPES.includes(mimeType)) {
+      return new Response(JSON.stringify({
+        error: `Unsupported image type: ${mimeType || 'unknown'}`,
+        code: 'UNSUPPORTED_MEDIA_TYPE',
+      }), {
+        status: 415,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    const quota = await consumeFarmQuota(farmId);
+    if (!quota.allowed) return limitExceededResponse(quota, corsHeaders);
+
+    // El análisis queda reservado; solo cuenta si la petición termina con un resultado válido
+    let charged = false;
+
+    try {
+      const { provider } = selection;
+      const result = await provider.analyze({
+        prompt: analysisPrompt.text,
+        imageBase64: base64Data,
+        mimeType,
+      });
+
+      if (!result.ok) {
+        return new Response(JSON.stringify({ 
+          error: result.error,
+          details: result.details 
+        }), {
+          status: result.status,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        });
+      }
+
+      const analysisText = result.text;
+
+      // The model is asked for bare JSON; anything else is a model error, not a bad photo
+      let parsed: unknown;
+      try {
+        parsed = JSON.parse(analysisText);
+      } catch (parseError) {
+        console.error('Failed to parse JSON:', parseError);
+        parsed = undefined;
+      }
+
+      const validation = validateAnalysis(parsed);
+      if (!validation.ok) {
+        console.error('Malformed model response:', validation.errors, analysisText);
+        return new Response(JSON.stringify({
+          error: 'Malformed response from model',
+          code: 'MALFORMED_MODEL_RESPONSE',
+          details: validation.errors,
+        }), {
+          status: 502,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        });
+      }
+
+      charged = true;
+      return new Response(JSON.stringify({ ...validation.value, modelo: provider.model, prompt: analysisPrompt.id }), {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    } finally {
+      if (!charged) {
+        await refundFarmQuota(farmId).catch((refundError) => {
+          console.error('Error refunding farm quota:', refundError);
+        });
+      }
+    }
+
+  } catch (error) {
+    console.error('Error in analyze-image function:', error);
+    return new Response(JSON.stringify({ 
+      error: (error instanceof Error && error.message) || 'Internal server error' 
+    }), {
+      status: 500,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  }
+};
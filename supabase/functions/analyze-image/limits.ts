@@ -0,0 +1,71 @@
+import { createClient } from "npm:@supabase/supabase-js@2.53.0";
+
+const WINDOW_SECONDS = 60;
+
+export type LimitResult =
+  | { allowed: true }
+  | { allowed: false; code: 'RATE_LIMITED' | 'QUOTA_EXCEEDED'; retryAfter: number; error: string };
+
+const readLimit = (name: string, fallback: number) => {
+  const value = Number(Deno.env.get(name));
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+};
+
+// Los contadores solo se pueden tocar con la service role
+const createServiceClient = () =>
+  createClient(
+    Deno.env.get('SUPABASE_URL') ?? '',
+    Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '',
+    { auth: { persistSession: false } },
+  );
+
+// El cliente puede mandar su propio x-forwarded-for y cada proxy agrega al final: la última entrada
+// es la que puso el proxy de Supabase y la única que no se puede falsificar
+export const getClientIp = (req: Request) =>
+  req.headers.get('x-forwarded-for')?.split(',').at(-1)?.trim() ||
+  req.headers.get('x-real-ip') ||
+  'unknown';
+
+const hitRateLimit = async (key: string, maxHits: number): Promise<LimitResult> => {
+  const { data, error } = await createServiceClient().rpc('hit_rate_limit', {
+    _key: key,
+    _window_seconds: WINDOW_SECONDS,
+    _max_hits: maxHits,
+  });
+  if (error) throw error;
+
+  const [result] = data;
+  if (result.allowed) return { allowed: true };
+  return {
+    allowed: false,
+    code: 'RATE_LIMITED',
+    retryAfter: result.retry_after_seconds,
+    error: 'Too many requests',
+  };
+};
+
+export const checkIpRateLimit = (ip: string) =>
+  hitRateLimit(`ip:${ip}`, readLimit('RATE_LIMIT_PER_IP_PER_MINUTE', 30));
+
+export const checkUserRateLimit = (userId: string) =>
+  hitRateLimit(`user:${userId}`, readLimit('RATE_LIMIT_PER_USER_PER_MINUTE', 10));
+
+export const consumeFarmQuota = async (farmId: string): Promise<LimitResult> => {
+  const { data, error } = await createServiceClient().rpc('consume_farm_quota', { _farm_id: farmId });
+  if (error) throw error;
+
+  const [result] = data;
+  if (result.allowed) return { allowed: true };
+  return {
+    allowed: false,
+    code: 'QUOTA_EXCEEDED',
+    retryAfter: result.retry_after_seconds,
+    error: `Monthly analysis quota of ${result.quota} reached`,
+  };
+};
+
+// Devuelve el análisis reservado por consumeFarmQuota cuando la petición no dio resultado
+export const refundFarmQuota = async (farmId: string) => {
+  const { error } = await createServiceClient().rpc('refund_farm_quota', { _farm_id: farmId });
+  if (error) throw error;
+};
@@ -0,0 +1,286 @@
+import { SCORE_BANDS, SCORE_SCALE_TEXT } from "../_shared/rump-scale.ts";
+
+const CATEGORY_SCALE_TEXT = SCORE_BANDS.map((band) => `${band.puntajes.join('-')} ${band.categoria}`).join(', ');
+
+// Plantillas de prompt permitidas. El cliente elige una por nombre y versión;
+// cualquier otro valor se rechaza para que no se puedan inyectar prompts arbitrarios.
+export const PROMPT_TEMPLATES: Record<string, Record<number, string>> = {
+  'anca-basico': {
+    1: `Eres un experto veterinario especializado en evaluación del ángulo de anca en vacas lecheras. 
+
+Analiza esta imagen de una vaca y evalúa el ángulo de su anca. Debes responder ÚNICAMENTE con un JSON válido en el siguiente formato exacto:
+
+{
+  "valido": boolean,
+  "razonInvalidez": string|null,
+  "numeroVacasDetectadas": number,
+  "vacaAnalizada": number|null,
+  "anguloCm": number|null,
+  "puntajeLineal": number|null,
+  "categoria": "Alto|Nivelado|Ligera caída|Intermedio|Pronunciada",
+  "recomendacion": string|null
+}
+
+Criterios:
+- valido: true si hay al menos una vaca visible y se puede evaluar el anca, false si no
+- razonInvalidez: explicación si valido=false
+- numeroVacasDetectadas: cantidad de vacas en la imagen
+- vacaAnalizada: número de la vaca analizada (1, 2, etc.)
+- anguloCm: ángulo del anca en grados (15-35° típico)
+- puntajeLineal: escala 1-9 donde 1=muy caído, 5=nivelado, 9=muy alto
+- categoria: clasificación según puntaje
+- recomendacion: consejo breve para el ganadero
+
+NO agregues texto adicional, solo el JSON.`,
+    2: `Eres un experto veterinario especializado en evaluación del ángulo de anca en vacas lecheras. 
+
+Analiza esta imagen de una vaca y evalúa el ángulo de su anca. Debes responder ÚNICAMENTE con un JSON válido en el siguiente formato exacto:
+
+{
+  "valido": boolean,
+  "razonInvalidez": string|null,
+  "numeroVacasDetectadas": number,
+  "vacaAnalizada": number|null,
+  "anguloCm": number|null,
+  "puntajeLineal": number|null,
+  "categoria": "Alto|Nivelado|Ligera caída|Intermedio|Pronunciada",
+  "recomendacion": string|null
+}
+
+Criterios:
+- valido: true si hay al menos una vaca visible y se puede evaluar el anca, false si no
+- razonInvalidez: explicación si valido=false
+- numeroVacasDetectadas: cantidad de vacas en la imagen
+- vacaAnalizada: número de la vaca analizada (1, 2, etc.)
+- anguloCm: ángulo del anca en grados, entre la horizontal y la línea cadera-isquion
+- puntajeLineal: escala 1-9 según el ángulo medido:
+${SCORE_SCALE_TEXT}
+- categoria: clasificación según puntaje (${CATEGORY_SCALE_TEXT})
+- recomendacion: consejo breve para el ganadero
+
+NO agregues texto adicional, solo el JSON.`,
+    3: `Eres un experto veterinario especializado en evaluación del ángulo de anca en vacas lecheras. 
+
+Analiza esta imagen de una vaca y evalúa el ángulo de su anca. Debes responder ÚNICAMENTE con un JSON válido en el siguiente formato exacto:
+
+{
+  "valido": boolean,
+  "razonInvalidez": string|null,
+  "numeroVacasDetectadas": number,
+  "vacaAnalizada": number|null,
+  "anguloGrados": number|null,
+  "diferenciaAlturaCm": number|null,
+  "puntajeLineal": number|null,
+  "categoria": "Alto|Nivelado|Ligera caída|Intermedio|Pronunciada",
+  "recomendacion": string|null
+}
+
+Criterios:
+- valido: true si hay al menos una vaca visible y se puede evaluar el anca, false si no
+- razonInvalidez: explicación si valido=false
+- numeroVacasDetectadas: cantidad de vacas en la imagen
+- vacaAnalizada: número de la vaca analizada (1, 2, etc.)
+- anguloGrados: ángulo del anca en grados, entre la horizontal y la línea cadera-isquion
+- diferenciaAlturaCm: cuántos centímetros más abajo está el isquion que la cadera (negativo si está más alto), null si no se puede estimar
+- puntajeLineal: escala 1-9 según el ángulo medido:
+${SCORE_SCALE_TEXT}
+- categoria: clasificación según puntaje (${CATEGORY_SCALE_TEXT})
+- recomendacion: consejo breve para el ganadero
+
+NO agregues texto adicional, solo el JSON.`,
+  },
+  'anca-tecnico': {
+    1: `Eres un experto veterinario especializado en conformación bovina. Analiza esta imagen de una vaca lechera y evalúa ESPECÍFICAMENTE el ángulo de su anca (rump angle).
+
+PROCESO DE ANÁLISIS TÉCNICO:
+1. VALIDACIÓN: Confirma que la imagen contiene una vaca lechera vista de perfil lateral
+2. IDENTIFICACIÓN ANATÓMICA: Localiza exactamente:
+   - Tuberosidad coxal (hueso de la cadera/pin bone)
+   - Tuberosidad isquiática (pin bone/isquion)
+   - Línea dorsal del anca
+3. MEDICIÓN PRECISA: Mide el ángulo entre la línea horizontal y la línea que conecta estos puntos anatómicos
+4. EVALUACIÓN CRÍTICA: Analiza la conformación real de ESTA vaca específica
+
+ESCALA DE PUNTUACIÓN LINEAL (1-9):
+${SCORE_SCALE_TEXT}
+
+ANÁLISIS DIFERENCIAL OBLIGATORIO:
+- Considera la raza, edad aparente, posición de la vaca
+- Evalúa la calidad ósea y muscular del área
+- NO uses valores por defecto - cada vaca es única
+- Sé crítico y preciso en tu evaluación
+
+Devuelve ÚNICAMENTE este JSON con mediciones reales:
+{
+  "valido": boolean,
+  "razonInvalidez": "string detallada si no es válida",
+  "numeroVacasDetectadas": number,
+  "vacaAnalizada": number,
+  "anguloCm": number (ángulo real medido),
+  "puntajeLineal": number (1-9, basado en medición real),
+  "categoria": "Alto" | "Nivelado" | "Ligera caída" | "Intermedio" | "Pronunciada",
+  "recomendacion": "string con análisis técnico específico de esta vaca"
+}`,
+    2: `Eres un experto veterinario especializado en conformación bovina. Analiza esta imagen de vacas lecheras y evalúa ESPECÍFICAMENTE el ángulo del anca (rump angle) de CADA vaca visible.
+
+PROCESO DE ANÁLISIS TÉCNICO:
+1. VALIDACIÓN: Confirma que la imagen contiene al menos una vaca lechera vista de perfil lateral
+2. DETECCIÓN: Numera las vacas de izquierda a derecha (1, 2, ...) y ubica cada una con una caja delimitadora
+3. IDENTIFICACIÓN ANATÓMICA: Para cada vaca localiza exactamente:
+   - Tuberosidad coxal (hueso de la cadera/hook bone)
+   - Tuberosidad isquiática (pin bone/isquion)
+   - Línea dorsal del anca
+4. MEDICIÓN PRECISA: Mide el ángulo entre la línea horizontal y la línea que conecta estos puntos anatómicos
+5. EVALUACIÓN CRÍTICA: Analiza la conformación real de cada vaca por separado
+
+ESCALA DE PUNTUACIÓN LINEAL (1-9):
+${SCORE_SCALE_TEXT}
+
+ANÁLISIS DIFERENCIAL OBLIGATORIO:
+- Considera la raza, edad aparente, posición de cada vaca
+- Omite de "vacas" las que no tengan el anca visible de perfil
+- NO uses valores por defecto - cada vaca es única
+- Sé crítico y preciso en tu evaluación
+
+Devuelve ÚNICAMENTE este JSON con mediciones reales. Los campos de nivel superior repiten el resultado de la vaca mejor visible (vacaAnalizada):
+{
+  "valido": boolean,
+  "razonInvalidez": "string detallada si no es válida",
+  "numeroVacasDetectadas": number,
+  "vacaAnalizada": number,
+  "anguloCm": number,
+  "puntajeLineal": number,
+  "categoria": "Alto" | "Nivelado" | "Ligera caída" | "Intermedio" | "Pronunciada",
+  "recomendacion": "string",
+  "vacas": [
+    {
+      "numero": number,
+      "boundingBox": { "x": number, "y": number, "ancho": number, "alto": number } (fracciones 0-1 de la imagen, origen arriba a la izquierda),
+      "anguloCm": number (ángulo real medido),
+      "puntajeLineal": number (1-9, basado en medición real),
+      "categoria": "Alto" | "Nivelado" | "Ligera caída" | "Intermedio" | "Pronunciada",
+      "recomendacion": "string con análisis técnico específico de esta vaca"
+    }
+  ]
+}`,
+    3: `Eres un experto veterinario especializado en conformación bovina. Analiza esta imagen de vacas lecheras y evalúa ESPECÍFICAMENTE el ángulo del anca (rump angle) de CADA vaca visible.
+
+PROCESO DE ANÁLISIS TÉCNICO:
+1. VALIDACIÓN: Confirma que la imagen contiene al menos una vaca lechera vista de perfil lateral
+2. DETECCIÓN: Numera las vacas de izquierda a derecha (1, 2, ...) y ubica cada una con una caja delimitadora
+3. IDENTIFICACIÓN ANATÓMICA: Para cada vaca localiza exactamente:
+   - Tuberosidad coxal (hueso de la cadera/hook bone)
+   - Tuberosidad isquiática (pin bone/isquion)
+   - Línea dorsal del anca
+4. MEDICIÓN PRECISA: Mide el ángulo entre la línea horizontal y la línea que conecta estos puntos anatómicos
+   y devuelve la posición exacta de la tuberosidad coxal y de la isquiática en la foto
+5. EVALUACIÓN CRÍTICA: Analiza la conformación real de cada vaca por separado
+
+ESCALA DE PUNTUACIÓN LINEAL (1-9):
+${SCORE_SCALE_TEXT}
+
+ANÁLISIS DIFERENCIAL OBLIGATORIO:
+- Considera la raza, edad aparente, posición de cada vaca
+- Omite de "vacas" las que no tengan el anca visible de perfil
+- NO uses valores por defecto - cada vaca es única
+- Sé crítico y preciso en tu evaluación
+
+Devuelve ÚNICAMENTE este JSON con mediciones reales. Los campos de nivel superior repiten el resultado de la vaca mejor visible (vacaAnalizada):
+{
+  "valido": boolean,
+  "razonInvalidez": "string detallada si no es válida",
+  "numeroVacasDetectadas": number,
+  "vacaAnalizada": number,
+  "anguloCm": number,
+  "puntajeLineal": number,
+  "categoria": "Alto" | "Nivelado" | "Ligera caída" | "Intermedio" | "Pronunciada",
+  "recomendacion": "string",
+  "puntosAnatomicos": { "coxal": { "x": number, "y": number }, "isquiatica": { "x": number, "y": number } },
+  "vacas": [
+    {
+      "numero": number,
+      "boundingBox": { "x": number, "y": number, "ancho": number, "alto": number } (fracciones 0-1 de la imagen, origen arriba a la izquierda),
+      "puntosAnatomicos": { "coxal": { "x": number, "y": number }, "isquiatica": { "x": number, "y": number } } (fracciones 0-1 de la imagen, mismo origen),
+      "anguloCm": number (ángulo real medido),
+      "puntajeLineal": number (1-9, basado en medición real),
+      "categoria": "Alto" | "Nivelado" | "Ligera caída" | "Intermedio" | "Pronunciada",
+      "recomendacion": "string con análisis técnico específico de esta vaca"
+    }
+  ]
+}`,
+    4: `Eres un experto veterinario especializado en conformación bovina. Analiza esta imagen de vacas lecheras y evalúa ESPECÍFICAMENTE el ángulo del anca (rump angle) de CADA vaca visible.
+
+PROCESO DE ANÁLISIS TÉCNICO:
+1. VALIDACIÓN: Confirma que la imagen contiene al menos una vaca lechera vista de perfil lateral
+2. DETECCIÓN: Numera las vacas de izquierda a derecha (1, 2, ...) y ubica cada una con una caja delimitadora
+3. IDENTIFICACIÓN ANATÓMICA: Para cada vaca localiza exactamente:
+   - Tuberosidad coxal (hueso de la cadera/hook bone)
+   - Tuberosidad isquiática (pin bone/isquion)
+   - Línea dorsal del anca
+4. MEDICIÓN PRECISA: Mide el ángulo entre la línea horizontal y la línea que conecta estos puntos anatómicos
+   y devuelve la posición exacta de la tuberosidad coxal y de la isquiática en la foto.
+   Estima también la diferencia de altura entre ambas en centímetros
+5. EVALUACIÓN CRÍTICA: Analiza la conformación real de cada vaca por separado
+
+ESCALA DE PUNTUACIÓN LINEAL (1-9):
+${SCORE_SCALE_TEXT}
+
+ANÁLISIS DIFERENCIAL OBLIGATORIO:
+- Considera la raza, edad aparente, posición de cada vaca
+- Omite de "vacas" las que no tengan el anca visible de perfil
+- NO uses valores por defecto - cada vaca es única
+- Sé crítico y preciso en tu evaluación
+
+Devuelve ÚNICAMENTE este JSON con mediciones reales. Los campos de nivel superior repiten el resultado de la vaca mejor visible (vacaAnalizada):
+{
+  "valido": boolean,
+  "razonInvalidez": "string detallada si no es válida",
+  "numeroVacasDetectadas": number,
+  "vacaAnalizada": number,
+  "anguloGrados": number,
+  "diferenciaAlturaCm": number | null,
+  "puntajeLineal": number,
+  "categoria": "Alto" | "Nivelado" | "Ligera caída" | "Intermedio" | "Pronunciada",
+  "recomendacion": "string",
+  "puntosAnatomicos": { "coxal": { "x": number, "y": number }, "isquiatica": { "x": number, "y": number } },
+  "vacas": [
+    {
+      "numero": number,
+      "boundingBox": { "x": number, "y": number, "ancho": number, "alto": number } (fracciones 0-1 de la imagen, origen arriba a la izquierda),
+      "puntosAnatomicos": { "coxal": { "x": number, "y": number }, "isquiatica": { "x": number, "y": number } } (fracciones 0-1 de la imagen, mismo origen),
+      "anguloGrados": number (ángulo real medido, en grados),
+      "diferenciaAlturaCm": number | null (centímetros que el isquion está más bajo que la cadera; negativo si está más alto),
+      "puntajeLineal": number (1-9, basado en medición real),
+      "categoria": "Alto" | "Nivelado" | "Ligera caída" | "Intermedio" | "Pronunciada",
+      "recomendacion": "string con análisis técnico específico de esta vaca"
+    }
+  ]
+}`,
+  },
+};
+
+// Versiones que piden "anguloCm", un campo que el responseSchema ya no declara. Se conservan para saber
+// con qué texto se hicieron los análisis guardados, pero ya no se pueden pedir
+export const RETIRED_PROMPT_VERSIONS: Record<string, number[]> = {
+  'anca-basico': [1, 2],
+  'anca-tecnico': [1, 2, 3],
+};
+
+export const DEFAULT_PROMPT = 'anca-basico';
+
+export type ResolvedPrompt = {
+  id: string;
+  text: string;
+};
+
+// Devuelve la plantilla pedida (la última versión si no se indica) o null si no está permitida o fue retirada
+export const resolvePrompt = (name: unknown = DEFAULT_PROMPT, version?: unknown): ResolvedPrompt | null => {
+  if (typeof name !== 'string' || !Object.hasOwn(PROMPT_TEMPLATES, name)) return null;
+
+  const versions = PROMPT_TEMPLATES[name];
+  const resolvedVersion = version ?? Math.max(...Object.keys(versions).map(Number));
+  if (typeof resolvedVersion !== 'number' || !Object.hasOwn(versions, resolvedVersion)) return null;
+  if (RETIRED_PROMPT_VERSIONS[name]?.includes(resolvedVersion)) return null;
+
+  return { id: `${name}@v${resolvedVersion}`, text: versions[resolvedVersion] };
+};
@@ -0,0 +1,69 @@
+import { analysisResponseSchema } from "../schema.ts";
+import type { ProviderSelection, VisionRequest, VisionResult } from "./types.ts";
+
+const DEFAULT_MODEL = 'gemini-1.5-flash';
+const DEFAULT_BASE_URL = 'https://generativelanguage.googleapis.com';
+
+export const createGeminiProvider = (): ProviderSelection => {
+  const apiKey = Deno.env.get('GOOGLE_API_KEY');
+  if (!apiKey) {
+    return { ok: false, error: 'Google API key not configured' };
+  }
+
+  const model = Deno.env.get('GEMINI_MODEL') || DEFAULT_MODEL;
+  // Permite apuntar a un servidor local de prueba
+  const baseUrl = (Deno.env.get('GEMINI_API_BASE_URL') || DEFAULT_BASE_URL).replace(/\/+$/, '');
+
+  const analyze = async ({ prompt, imageBase64, mimeType }: VisionRequest): Promise<VisionResult> => {
+    const requestBody = {
+      contents: [{
+        parts: [
+          {
+            text: prompt
+          },
+          {
+            inline_data: {
+              mime_type: mimeType,
+              data: imageBase64
+            }
+          }
+        ]
+      }],
+      generationConfig: {
+        temperature: 0.3,
+        topK: 32,
+        topP: 1,
+        maxOutputTokens: 1024,
+        responseMimeType: 'application/json',
+        responseSchema: analysisResponseSchema,
+      }
+    };
+
+    console.log('Making request to Gemini API...');
+
+    const response = await fetch(`${baseUrl}/v1beta/models/${model}:generateContent?key=${apiKey}`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(requestBody),
+    });
+
+    if (!response.ok) {
+      const errorData = await response.text();
+      console.error('Gemini API error:', errorData);
+      return { ok: false, status: response.status, error: 'Error from Gemini API', details: errorData };
+    }
+
+    const data = await response.json();
+    console.log('Gemini API response:', data);
+
+    if (!data.candidates || !data.candidates[0] || !data.candidates[0].content) {
+      return { ok: false, status: 500, error: 'No valid response from Gemini API', details: data };
+    }
+
+    return { ok: true, text: data.candidates[0].content.parts?.[0]?.text };
+  };
+
+  return { ok: true, provider: { name: 'gemini', model, analyze } };
+};
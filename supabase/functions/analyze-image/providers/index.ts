@@ -0,0 +1,22 @@
+import { createGeminiProvider } from "./gemini.ts";
+import { createMockProvider } from "./mock.ts";
+import { createOpenAIProvider } from "./openai.ts";
+import type { ProviderSelection } from "./types.ts";
+
+export type { VisionProvider, VisionRequest, VisionResult } from "./types.ts";
+
+const PROVIDERS: Record<string, () => ProviderSelection> = {
+  gemini: createGeminiProvider,
+  openai: createOpenAIProvider,
+  mock: createMockProvider,
+};
+
+// Elige el proveedor de visión con VISION_PROVIDER (gemini por defecto)
+export const getVisionProvider = (): ProviderSelection => {
+  const name = (Deno.env.get('VISION_PROVIDER') || 'gemini').toLowerCase();
+  const factory = PROVIDERS[name];
+  if (!factory) {
+    return { ok: false, error: `Unknown vision provider: ${name}` };
+  }
+  return factory();
+};
@@ -0,0 +1,37 @@
+import type { ProviderSelection, VisionResult } from "./types.ts";
+
+// Respuesta fija para pruebas locales y CI: no llama a ningún servicio externo
+const MOCK_RESULT = {
+  valido: true,
+  razonInvalidez: null,
+  numeroVacasDetectadas: 1,
+  vacaAnalizada: 1,
+  anguloGrados: 20,
+  diferenciaAlturaCm: 6,
+  puntajeLineal: 5,
+  categoria: 'Ligera caída',
+  recomendacion: 'Resultado simulado por el proveedor mock.',
+  puntosAnatomicos: { coxal: { x: 0.3, y: 0.35 }, isquiatica: { x: 0.15, y: 0.4 } },
+  vacas: [
+    {
+      numero: 1,
+      boundingBox: { x: 0.1, y: 0.2, ancho: 0.8, alto: 0.6 },
+      puntosAnatomicos: { coxal: { x: 0.3, y: 0.35 }, isquiatica: { x: 0.15, y: 0.4 } },
+      anguloGrados: 20,
+      diferenciaAlturaCm: 6,
+      puntajeLineal: 5,
+      categoria: 'Ligera caída',
+      recomendacion: 'Resultado simulado por el proveedor mock.',
+    },
+  ],
+};
+
+export const createMockProvider = (): ProviderSelection => ({
+  ok: true,
+  provider: {
+    name: 'mock',
+    model: 'mock',
+    analyze: (): Promise<VisionResult> =>
+      Promise.resolve({ ok: true, text: JSON.stringify(MOCK_RESULT) }),
+  },
+});
@@ -0,0 +1,59 @@
+import type { ProviderSelection, VisionRequest, VisionResult } from "./types.ts";
+
+const DEFAULT_BASE_URL = 'https://api.openai.com/v1';
+const DEFAULT_MODEL = 'gpt-4o-mini';
+
+// Cualquier endpoint compatible con /chat/completions de OpenAI (OpenAI, OpenRouter, vLLM, Ollama...)
+export const createOpenAIProvider = (): ProviderSelection => {
+  const apiKey = Deno.env.get('OPENAI_API_KEY');
+  if (!apiKey) {
+    return { ok: false, error: 'OpenAI API key not configured' };
+  }
+
+  const baseUrl = (Deno.env.get('OPENAI_BASE_URL') || DEFAULT_BASE_URL).replace(/\/+$/, '');
+  const model = Deno.env.get('OPENAI_MODEL') || DEFAULT_MODEL;
+
+  const analyze = async ({ prompt, imageBase64, mimeType }: VisionRequest): Promise<VisionResult> => {
+    const requestBody = {
+      model,
+      temperature: 0.3,
+      max_tokens: 1024,
+      response_format: { type: 'json_object' },
+      messages: [{
+        role: 'user',
+        content: [
+          { type: 'text', text: prompt },
+          { type: 'image_url', image_url: { url: `data:${mimeType};base64,${imageBase64}` } },
+        ],
+      }],
+    };
+
+    console.log(`Making request to ${baseUrl}...`);
+
+    const response = await fetch(`${baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${apiKey}`,
+      },
+      body: JSON.stringify(requestBody),
+    });
+
+    if (!response.ok) {
+      const errorData = await response.text();
+      console.error('OpenAI-compatible API error:', errorData);
+      return { ok: false, status: response.status, error: 'Error from OpenAI-compatible API', details: errorData };
+    }
+
+    const data = await response.json();
+    const content = data.choices?.[0]?.message?.content;
+
+    if (typeof content !== 'string') {
+      return { ok: false, status: 500, error: 'No valid response from OpenAI-compatible API', details: data };
+    }
+
+    return { ok: true, text: content };
+  };
+
+  return { ok: true, provider: { name: 'openai', model, analyze } };
+};
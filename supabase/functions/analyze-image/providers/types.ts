@@ -0,0 +1,20 @@
+export type VisionRequest = {
+  prompt: string;
+  imageBase64: string;
+  mimeType: string;
+};
+
+// Un proveedor devuelve el texto crudo del modelo o un error HTTP para reenviar al cliente
+export type VisionResult =
+  | { ok: true; text: string }
+  | { ok: false; status: number; error: string; details?: unknown };
+
+export interface VisionProvider {
+  name: string;
+  model: string;
+  analyze(request: VisionRequest): Promise<VisionResult>;
+}
+
+export type ProviderSelection =
+  | { ok: true; provider: VisionProvider }
+  | { ok: false; error: string };
@@ -0,0 +1,282 @@
+import { CATEGORIAS, categoryFromScore, isCategoria, type Categoria } from "../_shared/rump-scale.ts";
+
+// Versión del resultado que devuelve la función. v1 llamaba "anguloCm" a un ángulo en grados;
+// v2 lo llama anguloGrados y añade la diferencia de altura coxal-isquion en centímetros
+export const RESULT_SCHEMA_VERSION = 2;
+
+// Caja delimitadora normalizada (0-1) respecto al ancho y alto de la foto
+export type BoundingBox = {
+  x: number;
+  y: number;
+  ancho: number;
+  alto: number;
+};
+
+// Punto normalizado (0-1) sobre la foto, origen arriba a la izquierda
+export type Point = {
+  x: number;
+  y: number;
+};
+
+// Puntos anatómicos que definen la línea del anca
+export type RumpLandmarks = {
+  coxal: Point;
+  isquiatica: Point;
+};
+
+export type CowResult = {
+  numero: number;
+  boundingBox: BoundingBox | null;
+  puntosAnatomicos: RumpLandmarks | null;
+  anguloGrados: number | null;
+  diferenciaAlturaCm: number | null;
+  puntajeLineal: number | null;
+  categoria: Categoria | null;
+  recomendacion: string | null;
+};
+
+export type AnalysisResult = {
+  schemaVersion: typeof RESULT_SCHEMA_VERSION;
+  valido: boolean;
+  razonInvalidez: string | null;
+  numeroVacasDetectadas: number;
+  vacaAnalizada: number | null;
+  anguloGrados: number | null;
+  diferenciaAlturaCm: number | null;
+  puntajeLineal: number | null;
+  categoria: Categoria | null;
+  recomendacion: string | null;
+  puntosAnatomicos: RumpLandmarks | null;
+  vacas: CowResult[];
+};
+
+const boundingBoxSchema = {
+  type: 'OBJECT',
+  properties: {
+    x: { type: 'NUMBER' },
+    y: { type: 'NUMBER' },
+    ancho: { type: 'NUMBER' },
+    alto: { type: 'NUMBER' },
+  },
+  required: ['x', 'y', 'ancho', 'alto'],
+};
+
+const pointSchema = {
+  type: 'OBJECT',
+  properties: {
+    x: { type: 'NUMBER' },
+    y: { type: 'NUMBER' },
+  },
+  required: ['x', 'y'],
+};
+
+const landmarksSchema = {
+  type: 'OBJECT',
+  properties: {
+    coxal: pointSchema,
+    isquiatica: pointSchema,
+  },
+  required: ['coxal', 'isquiatica'],
+  nullable: true,
+};
+
+const cowSchema = {
+  type: 'OBJECT',
+  properties: {
+    numero: { type: 'INTEGER' },
+    boundingBox: { ...boundingBoxSchema, nullable: true },
+    puntosAnatomicos: landmarksSchema,
+    anguloGrados: { type: 'NUMBER', nullable: true },
+    diferenciaAlturaCm: { type: 'NUMBER', nullable: true },
+    puntajeLineal: { type: 'INTEGER', nullable: true },
+    categoria: { type: 'STRING', enum: [...CATEGORIAS], nullable: true },
+    recomendacion: { type: 'STRING', nullable: true },
+  },
+  required: ['numero', 'anguloGrados', 'puntajeLineal', 'categoria'],
+  propertyOrdering: [
+    'numero',
+    'boundingBox',
+    'puntosAnatomicos',
+    'anguloGrados',
+    'diferenciaAlturaCm',
+    'puntajeLineal',
+    'categoria',
+    'recomendacion',
+  ],
+};
+
+// Esquema de salida estructurada de Gemini (subconjunto OpenAPI 3.0)
+export const analysisResponseSchema = {
+  type: 'OBJECT',
+  properties: {
+    valido: { type: 'BOOLEAN' },
+    razonInvalidez: { type: 'STRING', nullable: true },
+    numeroVacasDetectadas: { type: 'INTEGER' },
+    vacaAnalizada: { type: 'INTEGER', nullable: true },
+    anguloGrados: { type: 'NUMBER', nullable: true },
+    diferenciaAlturaCm: { type: 'NUMBER', nullable: true },
+    puntajeLineal: { type: 'INTEGER', nullable: true },
+    categoria: { type: 'STRING', enum: [...CATEGORIAS], nullable: true },
+    recomendacion: { type: 'STRING', nullable: true },
+    puntosAnatomicos: landmarksSchema,
+    vacas: { type: 'ARRAY', items: cowSchema },
+  },
+  required: ['valido', 'numeroVacasDetectadas'],
+  propertyOrdering: [
+    'valido',
+    'razonInvalidez',
+    'numeroVacasDetectadas',
+    'vacaAnalizada',
+    'anguloGrados',
+    'diferenciaAlturaCm',
+    'puntajeLineal',
+    'categoria',
+    'recomendacion',
+    'puntosAnatomicos',
+    'vacas',
+  ],
+};
+
+export type ValidationResult =
+  | { ok: true; value: AnalysisResult }
+  | { ok: false; errors: string[] };
+
+const isNullableString = (value: unknown) => value == null || typeof value === 'string';
+const isNullableInteger = (value: unknown) => value == null || Number.isInteger(value);
+const isUnitInterval = (value: unknown) => typeof value === 'number' && value >= 0 && value <= 1;
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Las plantillas retiradas pedían "anguloCm" (también en grados); se acepta por si un proveedor sin responseSchema lo sigue devolviendo
+const readAngle = (input: Record<string, unknown>) => input.anguloGrados ?? input.anguloCm;
+
+// Comprueba los campos de medición, comunes al resultado principal y a cada vaca
+const validateMeasurement = (input: Record<string, unknown>, path: string, required: boolean) => {
+  const errors: string[] = [];
+
+  const angle = readAngle(input);
+  if (angle != null && typeof angle !== 'number') errors.push(`${path}anguloGrados must be a number`);
+  if (input.diferenciaAlturaCm != null && typeof input.diferenciaAlturaCm !== 'number') {
+    errors.push(`${path}diferenciaAlturaCm must be a number`);
+  }
+  if (!isNullableInteger(input.puntajeLineal)) errors.push(`${path}puntajeLineal must be an integer`);
+  if (input.categoria != null && !isCategoria(input.categoria)) {
+    errors.push(`${path}categoria must be one of ${CATEGORIAS.join(', ')}`);
+  }
+  if (!isNullableString(input.recomendacion)) errors.push(`${path}recomendacion must be a string`);
+
+  if (required) {
+    const score = input.puntajeLineal as number;
+    if (input.puntajeLineal == null || score < 1 || score > 9) errors.push(`${path}puntajeLineal must be between 1 and 9`);
+    if (angle == null) errors.push(`${path}anguloGrados is required when valido is true`);
+    if (input.categoria == null) errors.push(`${path}categoria is required when valido is true`);
+  }
+
+  return errors;
+};
+
+const validateBoundingBox = (box: unknown, path: string) => {
+  if (box == null) return [];
+  if (!isObject(box) || ![box.x, box.y, box.ancho, box.alto].every(isUnitInterval)) {
+    return [`${path}boundingBox must have x, y, ancho and alto between 0 and 1`];
+  }
+  return [];
+};
+
+const isPoint = (value: unknown) => isObject(value) && isUnitInterval(value.x) && isUnitInterval(value.y);
+
+const validateLandmarks = (landmarks: unknown, path: string) => {
+  if (landmarks == null) return [];
+  if (!isObject(landmarks) || !isPoint(landmarks.coxal) || !isPoint(landmarks.isquiatica)) {
+    return [`${path}puntosAnatomicos must have coxal and isquiatica points between 0 and 1`];
+  }
+  return [];
+};
+
+const toLandmarks = (value: unknown) => (isObject(value) ? (value as RumpLandmarks) : null);
+
+// El puntaje manda: una categoría que no corresponde a su banda se reemplaza por la de la escala compartida
+const normalizeCategory = (puntaje: unknown, categoria: unknown) => {
+  const fromScore = typeof puntaje === 'number' ? categoryFromScore(puntaje) : null;
+  if (fromScore && categoria !== fromScore) {
+    console.warn(`Model categoria "${categoria}" contradicts puntajeLineal ${puntaje}, using "${fromScore}"`);
+    return fromScore;
+  }
+  return (categoria as Categoria | undefined) ?? null;
+};
+
+const toCowResult = (input: Record<string, unknown>, numero: number): CowResult => ({
+  numero,
+  boundingBox: isObject(input.boundingBox) ? (input.boundingBox as BoundingBox) : null,
+  puntosAnatomicos: toLandmarks(input.puntosAnatomicos),
+  anguloGrados: (readAngle(input) as number | undefined) ?? null,
+  diferenciaAlturaCm: (input.diferenciaAlturaCm as number | undefined) ?? null,
+  puntajeLineal: (input.puntajeLineal as number | undefined) ?? null,
+  categoria: normalizeCategory(input.puntajeLineal, input.categoria),
+  recomendacion: (input.recomendacion as string | undefined) ?? null,
+});
+
+// Valida la respuesta del modelo contra AnalysisResult antes de devolverla al cliente
+export const validateAnalysis = (raw: unknown): ValidationResult => {
+  if (!isObject(raw)) {
+    return { ok: false, errors: ['response is not an object'] };
+  }
+
+  const input = raw;
+  const errors: string[] = [];
+
+  if (typeof input.valido !== 'boolean') errors.push('valido must be a boolean');
+  if (!isNullableString(input.razonInvalidez)) errors.push('razonInvalidez must be a string');
+  if (!Number.isInteger(input.numeroVacasDetectadas) || (input.numeroVacasDetectadas as number) < 0) {
+    errors.push('numeroVacasDetectadas must be a non-negative integer');
+  }
+  if (!isNullableInteger(input.vacaAnalizada)) errors.push('vacaAnalizada must be an integer');
+
+  // Un resultado válido debe traer la medición completa
+  errors.push(...validateMeasurement(input, '', input.valido === true));
+  errors.push(...validateLandmarks(input.puntosAnatomicos, ''));
+
+  if (input.vacas != null && !Array.isArray(input.vacas)) errors.push('vacas must be an array');
+  const vacas = Array.isArray(input.vacas) ? input.vacas : [];
+  vacas.forEach((cow, index) => {
+    const path = `vacas[${index}].`;
+    if (!isObject(cow)) {
+      errors.push(`${path.slice(0, -1)} must be an object`);
+      return;
+    }
+    if (!Number.isInteger(cow.numero) || (cow.numero as number) < 1) errors.push(`${path}numero must be a positive integer`);
+    errors.push(...validateBoundingBox(cow.boundingBox, path));
+    errors.push(...validateLandmarks(cow.puntosAnatomicos, path));
+    errors.push(...validateMeasurement(cow, path, input.valido === true));
+  });
+
+  if (errors.length > 0) return { ok: false, errors };
+
+  const vacaAnalizada = (input.vacaAnalizada as number | undefined) ?? null;
+
+  // Las plantillas de una sola vaca no devuelven "vacas": se arma con el resultado principal
+  const cows = vacas.length > 0
+    ? vacas.map((cow) => toCowResult(cow as Record<string, unknown>, (cow as Record<string, unknown>).numero as number))
+    : input.valido === true
+      ? [toCowResult(input, vacaAnalizada ?? 1)]
+      : [];
+
+  return {
+    ok: true,
+    value: {
+      schemaVersion: RESULT_SCHEMA_VERSION,
+      valido: input.valido as boolean,
+      razonInvalidez: (input.razonInvalidez as string | undefined) ?? null,
+      numeroVacasDetectadas: input.numeroVacasDetectadas as number,
+      vacaAnalizada,
+      anguloGrados: (readAngle(input) as number | undefined) ?? null,
+      diferenciaAlturaCm: (input.diferenciaAlturaCm as number | undefined) ?? null,
+      puntajeLineal: (input.puntajeLineal as number | undefined) ?? null,
+      categoria: normalizeCategory(input.puntajeLineal, input.categoria),
+      recomendacion: (input.recomendacion as string | undefined) ?? null,
+      puntosAnatomicos: toLandmarks(input.puntosAnatomicos),
+      vacas: cows,
+    },
+  };
+};
@@ -0,0 +1,143 @@
+import { deepStrictEqual as assertEquals } from "node:assert/strict";
+import { handleRequest } from "./handler.ts";
+
+// Run with: npm test (usa el Deno fijado en devDependencies)
+
+const SERVICE_ROLE_KEY = 'test-service-role-key';
+const FARM_ID = '6f1c2a9e-0000-4000-8000-000000000001';
+
+type StubState = {
+  // Filas de analyses con su ruta actual
+  rows: { id: string; farm_id: string; image_path: string }[];
+  // Objetos que hay en el bucket
+  objects: Set<string>;
+};
+
+// Levanta un servidor local que responde como PostgREST y Storage sobre un estado en memoria
+const withStubSupabase = async (state: StubState, run: () => Promise<void>) => {
+  const controller = new AbortController();
+  const server = Deno.serve(
+    { port: 0, signal: controller.signal, onListen: () => {} },
+    async (req) => {
+      const url = new URL(req.url);
+
+      if (url.pathname === '/rest/v1/analyses' && req.method === 'GET') {
+        const prefix = url.searchParams.get('image_path')?.replace(/^like\./, '').replace(/[%*]$/, '') ?? '';
+        return Response.json(state.rows.filter((row) => row.image_path.startsWith(prefix)));
+      }
+      if (url.pathname === '/rest/v1/analyses' && req.method === 'PATCH') {
+        const path = url.searchParams.get('image_path')?.replace(/^eq\./, '');
+        const { image_path } = await req.json();
+        state.rows.filter((row) => row.image_path === path).forEach((row) => (row.image_path = image_path));
+        return new Response(null, { status: 204 });
+      }
+      if (url.pathname === '/storage/v1/object/move') {
+        const { sourceKey, destinationKey } = await req.json();
+        if (!state.objects.has(sourceKey)) {
+          return Response.json({ statusCode: '404', error: 'not_found', message: 'Object not found' }, { status: 400 });
+        }
+        state.objects.delete(sourceKey);
+        state.objects.add(destinationKey);
+        return Response.json({ message: 'Successfully moved' });
+      }
+      if (url.pathname.startsWith('/storage/v1/object/vacas/') && req.method === 'HEAD') {
+        const key = decodeURIComponent(url.pathname.slice('/storage/v1/object/vacas/'.length));
+        return new Response(null, { status: state.objects.has(key) ? 200 : 404 });
+      }
+      return new Response('not found', { status: 404 });
+    },
+  );
+  const { port } = server.addr as Deno.NetAddr;
+
+  const previous = {
+    SUPABASE_URL: Deno.env.get('SUPABASE_URL'),
+    SUPABASE_SERVICE_ROLE_KEY: Deno.env.get('SUPABASE_SERVICE_ROLE_KEY'),
+  };
+  Deno.env.set('SUPABASE_URL', `http://localhost:${port}`);
+  Deno.env.set('SUPABASE_SERVICE_ROLE_KEY', SERVICE_ROLE_KEY);
+
+  try {
+    await run();
+  } finally {
+    controller.abort();
+    await server.finished;
+    for (const [key, value] of Object.entries(previous)) {
+      if (value === undefined) Deno.env.delete(key);
+      else Deno.env.set(key, value);
+    }
+  }
+};
+
+const moveLegacyImages = (token: string | null = SERVICE_ROLE_KEY) =>
+  handleRequest(new Request('http://localhost/move-legacy-images', {
+    method: 'POST',
+    headers: token ? { Authorization: `Bearer ${token}` } : {},
+  }));
+
+Deno.test('only runs with the service role key', async () => {
+  const state: StubState = {
+    rows: [{ id: 'a1', farm_id: FARM_ID, image_path: 'analisis/foto-1.jpg' }],
+    objects: new Set(['analisis/foto-1.jpg']),
+  };
+  await withStubSupabase(state, async () => {
+    const anonymous = await moveLegacyImages(null);
+    assertEquals(anonymous.status, 401);
+    await anonymous.body?.cancel();
+
+    const user = await moveLegacyImages('user-access-token');
+    assertEquals(user.status, 401);
+    assertEquals((await user.json()).code, 'UNAUTHORIZED');
+    assertEquals(state.rows[0].image_path, 'analisis/foto-1.jpg');
+  });
+});
+
+Deno.test('moves legacy photos into their farm folder and updates every analysis that uses them', async () => {
+  const otherFarm = '6f1c2a9e-0000-4000-8000-000000000002';
+  const state: StubState = {
+    rows: [
+      // Una foto con dos vacas guarda dos filas con la misma ruta
+      { id: 'a1', farm_id: FARM_ID, image_path: 'analisis/foto-1.jpg' },
+      { id: 'a2', farm_id: FARM_ID, image_path: 'analisis/foto-1.jpg' },
+      { id: 'a3', farm_id: otherFarm, image_path: 'analisis/foto-2.jpg' },
+      { id: 'a4', farm_id: FARM_ID, image_path: `${FARM_ID}/analisis/foto-3.jpg` },
+    ],
+    objects: new Set(['analisis/foto-1.jpg', 'analisis/foto-2.jpg', `${FARM_ID}/analisis/foto-3.jpg`]),
+  };
+  await withStubSupabase(state, async () => {
+    const response = await moveLegacyImages();
+    assertEquals(response.status, 200);
+    assertEquals(await response.json(), { moved: 2, failed: [] });
+    assertEquals(state.rows.map((row) => row.image_path), [
+      `${FARM_ID}/analisis/foto-1.jpg`,
+      `${FARM_ID}/analisis/foto-1.jpg`,
+      `${otherFarm}/analisis/foto-2.jpg`,
+      `${FARM_ID}/analisis/foto-3.jpg`,
+    ]);
+    assertEquals([...state.objects].sort(), [
+      `${FARM_ID}/analisis/foto-1.jpg`,
+      `${FARM_ID}/analisis/foto-3.jpg`,
+      `${otherFarm}/analisis/foto-2.jpg`,
+    ].sort());
+  });
+});
+
+Deno.test('finishes a photo moved by an earlier run and reports photos that are missing', async () => {
+  const state: StubState = {
+    rows: [
+      { id: 'a1', farm_id: FARM_ID, image_path: 'analisis/ya-movida.jpg' },
+      { id: 'a2', farm_id: FARM_ID, image_path: 'analisis/perdida.jpg' },
+    ],
+    objects: new Set([`${FARM_ID}/analisis/ya-movida.jpg`]),
+  };
+  await withStubSupabase(state, async () => {
+    const response = await moveLegacyImages();
+    assertEquals(response.status, 207);
+    const body = await response.json();
+    assertEquals(body.moved, 1);
+    assertEquals(body.failed.map((failure: { path: string }) => failure.path), ['analisis/perdida.jpg']);
+    assertEquals(state.rows.map((row) => row.image_path), [
+      `${FARM_ID}/analisis/ya-movida.jpg`,
+      'analisis/perdida.jpg',
+    ]);
+  });
+});
@@ -0,0 +1,86 @@
+import { createClient } from "npm:@supabase/supabase-js@2.53.0";
+
+const STORAGE_BUCKET = 'vacas';
+// Carpeta de las fotos subidas antes de que el bucket se organizara por granja
+const LEGACY_PREFIX = 'analisis/';
+const PAGE_SIZE = 1000;
+
+type LegacyAnalysis = { farm_id: string; image_path: string };
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+
+const createServiceClient = () =>
+  createClient(
+    Deno.env.get('SUPABASE_URL') ?? '',
+    Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '',
+    { auth: { persistSession: false } },
+  );
+
+// Todas las fotos antiguas con sus granjas; varias filas comparten foto cuando había varias vacas
+const listLegacyImages = async (supabase: ReturnType<typeof createServiceClient>) => {
+  const farmByPath = new Map<string, string>();
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('analyses')
+      .select('farm_id, image_path')
+      .like('image_path', `${LEGACY_PREFIX}%`)
+      .order('id')
+      .range(from, from + PAGE_SIZE - 1);
+    if (error) throw error;
+
+    for (const row of data as LegacyAnalysis[]) {
+      if (!farmByPath.has(row.image_path)) farmByPath.set(row.image_path, row.farm_id);
+    }
+    if (data.length < PAGE_SIZE) return farmByPath;
+  }
+};
+
+// Tarea única tras la migración que asigna granja a los datos antiguos: mueve cada foto de
+// analisis/<uuid> a <farm_id>/analisis/<uuid>, donde la alcanzan las políticas del bucket, y
+// actualiza analyses.image_path. Se puede repetir: lo ya movido no vuelve a aparecer
+export const handleRequest = async (req: Request): Promise<Response> => {
+  const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '';
+  if (!serviceRoleKey || req.headers.get('Authorization') !== `Bearer ${serviceRoleKey}`) {
+    return jsonResponse({ error: 'Service role required', code: 'UNAUTHORIZED' }, 401);
+  }
+
+  try {
+    const supabase = createServiceClient();
+    const storage = supabase.storage.from(STORAGE_BUCKET);
+
+    let moved = 0;
+    const failed: { path: string; error: string }[] = [];
+
+    for (const [path, farmId] of await listLegacyImages(supabase)) {
+      const destination = `${farmId}/${path}`;
+
+      const { error: moveError } = await storage.move(path, destination);
+      if (moveError) {
+        // Una ejecución anterior pudo mover la foto y fallar al actualizar las filas
+        const { data: alreadyMoved } = await storage.exists(destination).catch(() => ({ data: false }));
+        if (!alreadyMoved) {
+          console.error('Error moving legacy image:', path, moveError);
+          failed.push({ path, error: moveError.message });
+          continue;
+        }
+      }
+
+      const { error: updateError } = await supabase
+        .from('analyses')
+        .update({ image_path: destination })
+        .eq('image_path', path);
+      if (updateError) {
+        console.error('Error updating analyses for moved image:', path, updateError);
+        failed.push({ path, error: updateError.message });
+        continue;
+      }
+      moved++;
+    }
+
+    return jsonResponse({ moved, failed }, failed.length > 0 ? 207 : 200);
+  } catch (error) {
+    console.error('Error in move-legacy-images function:', error);
+    return jsonResponse({ error: (error instanceof Error && error.message) || 'Internal server error' }, 500);
+  }
+};
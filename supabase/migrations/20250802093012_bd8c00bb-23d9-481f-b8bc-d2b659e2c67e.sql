@@ -0,0 +1,31 @@
+-- Create table to persist every rump angle analysis
+CREATE TABLE public.analyses (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  image_path TEXT,
+  valido BOOLEAN NOT NULL,
+  razon_invalidez TEXT,
+  numero_vacas_detectadas INTEGER,
+  vaca_analizada INTEGER,
+  angulo_cm NUMERIC,
+  puntaje_lineal INTEGER CHECK (puntaje_lineal BETWEEN 1 AND 9),
+  categoria TEXT CHECK (categoria IN ('Alto', 'Nivelado', 'Ligera caída', 'Intermedio', 'Pronunciada')),
+  recomendacion TEXT,
+  modelo TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX analyses_created_at_idx ON public.analyses (created_at DESC);
+
+-- Enable Row Level Security
+ALTER TABLE public.analyses ENABLE ROW LEVEL SECURITY;
+
+-- Create policies for the analyses table
+CREATE POLICY "Anyone can view analyses" 
+ON public.analyses 
+FOR SELECT 
+USING (true);
+
+CREATE POLICY "Anyone can create analyses" 
+ON public.analyses 
+FOR INSERT 
+WITH CHECK (true);
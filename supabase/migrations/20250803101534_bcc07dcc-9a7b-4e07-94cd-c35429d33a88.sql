@@ -0,0 +1,55 @@
+-- Create cow registry
+CREATE TABLE public.cows (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  ear_tag TEXT NOT NULL UNIQUE,
+  name TEXT,
+  breed TEXT,
+  birth_date DATE,
+  lactation_number INTEGER NOT NULL DEFAULT 0 CHECK (lactation_number >= 0),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Link each analysis to the evaluated cow
+ALTER TABLE public.analyses
+ADD COLUMN cow_id UUID REFERENCES public.cows (id) ON DELETE SET NULL;
+
+CREATE INDEX analyses_cow_id_idx ON public.analyses (cow_id, created_at DESC);
+
+-- Keep updated_at current
+CREATE OR REPLACE FUNCTION public.update_updated_at_column()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = now();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER update_cows_updated_at
+BEFORE UPDATE ON public.cows
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Enable Row Level Security
+ALTER TABLE public.cows ENABLE ROW LEVEL SECURITY;
+
+-- Create policies for the cows table
+CREATE POLICY "Anyone can view cows" 
+ON public.cows 
+FOR SELECT 
+USING (true);
+
+CREATE POLICY "Anyone can create cows" 
+ON public.cows 
+FOR INSERT 
+WITH CHECK (true);
+
+CREATE POLICY "Anyone can update cows" 
+ON public.cows 
+FOR UPDATE 
+USING (true);
+
+CREATE POLICY "Anyone can delete cows" 
+ON public.cows 
+FOR DELETE 
+USING (true);
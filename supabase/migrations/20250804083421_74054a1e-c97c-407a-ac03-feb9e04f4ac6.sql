@@ -0,0 +1,3 @@
+-- Record the cow's lactation at the time of each analysis
+ALTER TABLE public.analyses
+ADD COLUMN lactation_number INTEGER CHECK (lactation_number >= 0);
@@ -0,0 +1,176 @@
+-- Farms and their members
+CREATE TABLE public.farms (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL,
+  created_by UUID NOT NULL DEFAULT auth.uid() REFERENCES auth.users (id) ON DELETE CASCADE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE TABLE public.farm_members (
+  farm_id UUID NOT NULL REFERENCES public.farms (id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users (id) ON DELETE CASCADE,
+  role TEXT NOT NULL DEFAULT 'member' CHECK (role IN ('owner', 'member')),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  PRIMARY KEY (farm_id, user_id)
+);
+
+CREATE INDEX farm_members_user_id_idx ON public.farm_members (user_id);
+
+-- Membership checks used by the policies (SECURITY DEFINER avoids recursive RLS on farm_members)
+CREATE OR REPLACE FUNCTION public.is_farm_member(_farm_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.farm_members
+    WHERE farm_id = _farm_id AND user_id = auth.uid()
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION public.is_farm_owner(_farm_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.farm_members
+    WHERE farm_id = _farm_id AND user_id = auth.uid() AND role = 'owner'
+  );
+$$;
+
+-- The creator of a farm becomes its owner
+CREATE OR REPLACE FUNCTION public.add_farm_owner()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO public.farm_members (farm_id, user_id, role)
+  VALUES (NEW.id, NEW.created_by, 'owner');
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER add_farm_owner_after_insert
+AFTER INSERT ON public.farms
+FOR EACH ROW
+EXECUTE FUNCTION public.add_farm_owner();
+
+-- Scope cows and analyses to a farm
+ALTER TABLE public.cows
+ADD COLUMN farm_id UUID REFERENCES public.farms (id) ON DELETE CASCADE;
+
+ALTER TABLE public.cows DROP CONSTRAINT cows_ear_tag_key;
+ALTER TABLE public.cows ADD CONSTRAINT cows_farm_id_ear_tag_key UNIQUE (farm_id, ear_tag);
+
+ALTER TABLE public.analyses
+ADD COLUMN farm_id UUID REFERENCES public.farms (id) ON DELETE CASCADE;
+
+CREATE INDEX analyses_farm_id_idx ON public.analyses (farm_id, created_at DESC);
+
+-- Enable Row Level Security
+ALTER TABLE public.farms ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.farm_members ENABLE ROW LEVEL SECURITY;
+
+-- Policies for farms
+CREATE POLICY "Members can view their farms" 
+ON public.farms 
+FOR SELECT 
+TO authenticated
+USING (public.is_farm_member(id));
+
+CREATE POLICY "Authenticated users can create farms" 
+ON public.farms 
+FOR INSERT 
+TO authenticated
+WITH CHECK (created_by = auth.uid());
+
+CREATE POLICY "Owners can update their farms" 
+ON public.farms 
+FOR UPDATE 
+TO authenticated
+USING (public.is_farm_owner(id));
+
+CREATE POLICY "Owners can delete their farms" 
+ON public.farms 
+FOR DELETE 
+TO authenticated
+USING (public.is_farm_owner(id));
+
+-- Policies for farm_members
+CREATE POLICY "Members can view farm membership" 
+ON public.farm_members 
+FOR SELECT 
+TO authenticated
+USING (public.is_farm_member(farm_id));
+
+CREATE POLICY "Owners can add farm members" 
+ON public.farm_members 
+FOR INSERT 
+TO authenticated
+WITH CHECK (public.is_farm_owner(farm_id));
+
+CREATE POLICY "Owners can remove members, members can leave" 
+ON public.farm_members 
+FOR DELETE 
+TO authenticated
+USING (public.is_farm_owner(farm_id) OR user_id = auth.uid());
+
+-- Replace the open policies on cows
+DROP POLICY "Anyone can view cows" ON public.cows;
+DROP POLICY "Anyone can create cows" ON public.cows;
+DROP POLICY "Anyone can update cows" ON public.cows;
+DROP POLICY "Anyone can delete cows" ON public.cows;
+
+CREATE POLICY "Members can view farm cows" 
+ON public.cows 
+FOR SELECT 
+TO authenticated
+USING (public.is_farm_member(farm_id));
+
+CREATE POLICY "Members can create farm cows" 
+ON public.cows 
+FOR INSERT 
+TO authenticated
+WITH CHECK (public.is_farm_member(farm_id));
+
+CREATE POLICY "Members can update farm cows" 
+ON public.cows 
+FOR UPDATE 
+TO authenticated
+USING (public.is_farm_member(farm_id))
+WITH CHECK (public.is_farm_member(farm_id));
+
+CREATE POLICY "Members can delete farm cows" 
+ON public.cows 
+FOR DELETE 
+TO authenticated
+USING (public.is_farm_member(farm_id));
+
+-- Replace the open policies on analyses
+DROP POLICY "Anyone can view analyses" ON public.analyses;
+DROP POLICY "Anyone can create analyses" ON public.analyses;
+
+CREATE POLICY "Members can view farm analyses" 
+ON public.analyses 
+FOR SELECT 
+TO authenticated
+USING (public.is_farm_member(farm_id));
+
+CREATE POLICY "Members can create farm analyses" 
+ON public.analyses 
+FOR INSERT 
+TO authenticated
+WITH CHECK (
+  public.is_farm_member(farm_id)
+  AND (cow_id IS NULL OR EXISTS (
+    SELECT 1 FROM public.cows
+    WHERE cows.id = cow_id AND cows.farm_id = analyses.farm_id
+  ))
+);
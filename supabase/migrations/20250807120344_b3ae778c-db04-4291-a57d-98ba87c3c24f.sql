@@ -0,0 +1,50 @@
+-- Make the cow images bucket private: reads go through signed URLs
+UPDATE storage.buckets SET public = false WHERE id = 'vacas';
+
+-- Remove the open policies from the initial migration
+DROP POLICY "Public access for cow images" ON storage.objects;
+DROP POLICY "Anyone can upload cow images" ON storage.objects;
+DROP POLICY "Anyone can update cow images" ON storage.objects;
+DROP POLICY "Anyone can delete cow images" ON storage.objects;
+
+-- Objects live under <farm_id>/...; the first folder decides which farm can access them.
+-- Photos uploaded earlier under analisis/... are moved into their farm folder by the
+-- move-legacy-images edge function
+CREATE OR REPLACE FUNCTION public.is_farm_folder_member(_object_name TEXT)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.farm_members
+    WHERE farm_id::text = (storage.foldername(_object_name))[1]
+      AND user_id = auth.uid()
+  );
+$$;
+
+CREATE POLICY "Farm members can view their cow images" 
+ON storage.objects 
+FOR SELECT 
+TO authenticated
+USING (bucket_id = 'vacas' AND public.is_farm_folder_member(name));
+
+CREATE POLICY "Farm members can upload cow images" 
+ON storage.objects 
+FOR INSERT 
+TO authenticated
+WITH CHECK (bucket_id = 'vacas' AND public.is_farm_folder_member(name));
+
+CREATE POLICY "Owners can update their cow images" 
+ON storage.objects 
+FOR UPDATE 
+TO authenticated
+USING (bucket_id = 'vacas' AND owner_id = auth.uid()::text AND public.is_farm_folder_member(name))
+WITH CHECK (bucket_id = 'vacas' AND public.is_farm_folder_member(name));
+
+CREATE POLICY "Owners can delete their cow images" 
+ON storage.objects 
+FOR DELETE 
+TO authenticated
+USING (bucket_id = 'vacas' AND owner_id = auth.uid()::text AND public.is_farm_folder_member(name));
@@ -0,0 +1,100 @@
+-- Fixed-window counters for the analyze-image rate limits (per user and per IP)
+CREATE TABLE public.rate_limit_counters (
+  key TEXT NOT NULL,
+  window_start TIMESTAMP WITH TIME ZONE NOT NULL,
+  hits INTEGER NOT NULL DEFAULT 0,
+  PRIMARY KEY (key, window_start)
+);
+
+-- Monthly analysis usage per farm
+ALTER TABLE public.farms
+ADD COLUMN monthly_analysis_quota INTEGER NOT NULL DEFAULT 300 CHECK (monthly_analysis_quota >= 0);
+
+CREATE TABLE public.farm_monthly_usage (
+  farm_id UUID NOT NULL REFERENCES public.farms (id) ON DELETE CASCADE,
+  month DATE NOT NULL,
+  analyses INTEGER NOT NULL DEFAULT 0,
+  PRIMARY KEY (farm_id, month)
+);
+
+-- Only the edge function (service role) touches the counters
+ALTER TABLE public.rate_limit_counters ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.farm_monthly_usage ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can view farm usage" 
+ON public.farm_monthly_usage 
+FOR SELECT 
+TO authenticated
+USING (public.is_farm_member(farm_id));
+
+-- Counts a hit for _key in the current window and tells whether it is still allowed
+CREATE OR REPLACE FUNCTION public.hit_rate_limit(_key TEXT, _window_seconds INTEGER, _max_hits INTEGER)
+RETURNS TABLE (allowed BOOLEAN, retry_after_seconds INTEGER)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _window_start TIMESTAMP WITH TIME ZONE :=
+    to_timestamp(floor(extract(epoch FROM now()) / _window_seconds) * _window_seconds);
+  _hits INTEGER;
+BEGIN
+  INSERT INTO public.rate_limit_counters (key, window_start, hits)
+  VALUES (_key, _window_start, 1)
+  ON CONFLICT (key, window_start)
+  DO UPDATE SET hits = rate_limit_counters.hits + 1
+  RETURNING hits INTO _hits;
+
+  -- Old windows are no longer needed
+  DELETE FROM public.rate_limit_counters
+  WHERE key = _key AND window_start < _window_start;
+
+  RETURN QUERY SELECT
+    _hits <= _max_hits,
+    GREATEST(1, ceil(extract(epoch FROM (_window_start + make_interval(secs => _window_seconds) - now()))))::INTEGER;
+END;
+$$;
+
+-- Consumes one analysis from the farm's monthly quota if any is left
+CREATE OR REPLACE FUNCTION public.consume_farm_quota(_farm_id UUID)
+RETURNS TABLE (allowed BOOLEAN, used INTEGER, quota INTEGER, retry_after_seconds INTEGER)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _month DATE := date_trunc('month', now())::DATE;
+  _quota INTEGER;
+  _used INTEGER;
+BEGIN
+  SELECT monthly_analysis_quota INTO _quota FROM public.farms WHERE id = _farm_id;
+  IF _quota IS NULL THEN
+    RETURN QUERY SELECT false, 0, 0, 0;
+    RETURN;
+  END IF;
+
+  INSERT INTO public.farm_monthly_usage (farm_id, month, analyses)
+  VALUES (_farm_id, _month, 0)
+  ON CONFLICT (farm_id, month) DO NOTHING;
+
+  UPDATE public.farm_monthly_usage
+  SET analyses = analyses + 1
+  WHERE farm_id = _farm_id AND month = _month AND analyses < _quota
+  RETURNING analyses INTO _used;
+
+  IF _used IS NULL THEN
+    RETURN QUERY SELECT
+      false,
+      _quota,
+      _quota,
+      ceil(extract(epoch FROM ((_month + INTERVAL '1 month') - now())))::INTEGER;
+  ELSE
+    RETURN QUERY SELECT true, _used, _quota, 0;
+  END IF;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.hit_rate_limit(TEXT, INTEGER, INTEGER) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.consume_farm_quota(UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.hit_rate_limit(TEXT, INTEGER, INTEGER) TO service_role;
+GRANT EXECUTE ON FUNCTION public.consume_farm_quota(UUID) TO service_role;
@@ -0,0 +1,17 @@
+-- One analysis row per detected cow: keep where the cow is in the photo
+ALTER TABLE public.analyses
+ADD COLUMN bounding_box JSONB;
+
+-- Cows detected in a photo are assigned to an ear tag after the analysis is saved
+CREATE POLICY "Members can update farm analyses" 
+ON public.analyses 
+FOR UPDATE 
+TO authenticated
+USING (public.is_farm_member(farm_id))
+WITH CHECK (
+  public.is_farm_member(farm_id)
+  AND (cow_id IS NULL OR EXISTS (
+    SELECT 1 FROM public.cows
+    WHERE cows.id = cow_id AND cows.farm_id = analyses.farm_id
+  ))
+);
@@ -0,0 +1,9 @@
+-- Keep the model's landmarks and the user's corrected measurement side by side,
+-- so the AI values can be audited against the human ones
+ALTER TABLE public.analyses
+ADD COLUMN puntos_anatomicos JSONB,
+ADD COLUMN puntos_corregidos JSONB,
+ADD COLUMN angulo_corregido NUMERIC,
+ADD COLUMN puntaje_corregido INTEGER CHECK (puntaje_corregido BETWEEN 1 AND 9),
+ADD COLUMN categoria_corregida TEXT,
+ADD COLUMN corregido_at TIMESTAMP WITH TIME ZONE;
@@ -0,0 +1,6 @@
+-- angulo_cm always held degrees; name it for what it is and add the height difference in centimeters
+ALTER TABLE public.analyses
+RENAME COLUMN angulo_cm TO angulo_grados;
+
+ALTER TABLE public.analyses
+ADD COLUMN diferencia_altura_cm NUMERIC;
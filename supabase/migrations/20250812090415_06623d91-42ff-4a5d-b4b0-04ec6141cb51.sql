@@ -0,0 +1,19 @@
+-- Gives back an analysis reserved by consume_farm_quota when the request produced no result
+-- (provider error or malformed model response), so failed calls do not count against the month
+CREATE OR REPLACE FUNCTION public.refund_farm_quota(_farm_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.farm_monthly_usage
+  SET analyses = analyses - 1
+  WHERE farm_id = _farm_id
+    AND month = date_trunc('month', now())::DATE
+    AND analyses > 0;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.refund_farm_quota(UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.refund_farm_quota(UUID) TO service_role;
@@ -0,0 +1,41 @@
+-- Cows and analyses created before farms existed have no farm_id, so the farm-scoped RLS policies
+-- hid them from everyone. Move them into a default farm owned by the user named in
+-- app.legacy_farm_owner, then require a farm on every row. Set the owner before running it:
+--
+--   ALTER DATABASE postgres SET app.legacy_farm_owner = '<auth.users id>';
+--
+-- (the setting applies to new connections). Without it the migration stops instead of guessing an
+-- owner, and rows are never deleted
+DO $$
+DECLARE
+  _owner_setting TEXT := nullif(current_setting('app.legacy_farm_owner', true), '');
+  _owner UUID;
+  _farm UUID;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM public.cows WHERE farm_id IS NULL)
+    AND NOT EXISTS (SELECT 1 FROM public.analyses WHERE farm_id IS NULL) THEN
+    RETURN;
+  END IF;
+
+  IF _owner_setting IS NULL THEN
+    RAISE EXCEPTION 'There are cows or analyses without a farm and app.legacy_farm_owner is not set'
+      USING HINT = 'Run ALTER DATABASE postgres SET app.legacy_farm_owner = ''<auth.users id>'' and apply the migration again';
+  END IF;
+
+  SELECT id INTO _owner FROM auth.users WHERE id::text = _owner_setting;
+  IF _owner IS NULL THEN
+    RAISE EXCEPTION 'app.legacy_farm_owner (%) is not the id of an existing user', _owner_setting;
+  END IF;
+
+  -- add_farm_owner_after_insert makes _owner the owner of the new farm
+  INSERT INTO public.farms (name, created_by)
+  VALUES ('Granja principal', _owner)
+  RETURNING id INTO _farm;
+
+  UPDATE public.cows SET farm_id = _farm WHERE farm_id IS NULL;
+  UPDATE public.analyses SET farm_id = _farm WHERE farm_id IS NULL;
+END;
+$$;
+
+ALTER TABLE public.cows ALTER COLUMN farm_id SET NOT NULL;
+ALTER TABLE public.analyses ALTER COLUMN farm_id SET NOT NULL;
@@ -0,0 +1,12 @@
+-- monthly_analysis_quota lives on public.farms, which members can insert and owners can update through
+-- PostgREST, so anyone could create a farm with a huge quota or raise their own. Table-level grants
+-- cover every column (a column-level REVOKE alone would not take them away), so replace them with
+-- column grants that leave the quota to the service role.
+--
+-- Check after applying: as an authenticated user,
+--   insert into farms (name, monthly_analysis_quota) values ('x', 100000)  -> permission denied
+--   update farms set monthly_analysis_quota = 100000                       -> permission denied
+REVOKE INSERT, UPDATE ON public.farms FROM anon, authenticated;
+
+GRANT INSERT (id, name, created_by) ON public.farms TO authenticated;
+GRANT UPDATE (name) ON public.farms TO authenticated;
@@ -0,0 +1,34 @@
+-- hit_rate_limit only removed old windows for the key being hit, so counters for IPs and users that
+-- never came back stayed forever. Remove every expired window instead; all keys share the same window
+-- length, so anything that started before the current window is finished
+CREATE INDEX rate_limit_counters_window_start_idx ON public.rate_limit_counters (window_start);
+
+CREATE OR REPLACE FUNCTION public.hit_rate_limit(_key TEXT, _window_seconds INTEGER, _max_hits INTEGER)
+RETURNS TABLE (allowed BOOLEAN, retry_after_seconds INTEGER)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _window_start TIMESTAMP WITH TIME ZONE :=
+    to_timestamp(floor(extract(epoch FROM now()) / _window_seconds) * _window_seconds);
+  _hits INTEGER;
+BEGIN
+  INSERT INTO public.rate_limit_counters (key, window_start, hits)
+  VALUES (_key, _window_start, 1)
+  ON CONFLICT (key, window_start)
+  DO UPDATE SET hits = rate_limit_counters.hits + 1
+  RETURNING hits INTO _hits;
+
+  -- Expired windows of every key, not just this one
+  DELETE FROM public.rate_limit_counters
+  WHERE window_start < _window_start;
+
+  RETURN QUERY SELECT
+    _hits <= _max_hits,
+    GREATEST(1, ceil(extract(epoch FROM (_window_start + make_interval(secs => _window_seconds) - now()))))::INTEGER;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.hit_rate_limit(TEXT, INTEGER, INTEGER) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.hit_rate_limit(TEXT, INTEGER, INTEGER) TO service_role;
@@ -0,0 +1,25 @@
+-- Valid analyses of a farm counted per score and category for the herd dashboard. Counting on the
+-- server keeps the totals right for herds with more rows than PostgREST returns in one response
+CREATE OR REPLACE FUNCTION public.herd_score_counts(
+  _farm_id UUID,
+  _from TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  _to TIMESTAMP WITH TIME ZONE DEFAULT NULL
+)
+RETURNS TABLE (puntaje_lineal INTEGER, categoria TEXT, total INTEGER)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+  -- SECURITY INVOKER: the analyses RLS policies still limit the rows to the caller's farms
+  SELECT analyses.puntaje_lineal, analyses.categoria, count(*)::INTEGER
+  FROM public.analyses
+  WHERE analyses.farm_id = _farm_id
+    AND analyses.valido
+    AND (_from IS NULL OR analyses.created_at >= _from)
+    AND (_to IS NULL OR analyses.created_at <= _to)
+  GROUP BY analyses.puntaje_lineal, analyses.categoria;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.herd_score_counts(UUID, TIMESTAMP WITH TIME ZONE, TIMESTAMP WITH TIME ZONE) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.herd_score_counts(UUID, TIMESTAMP WITH TIME ZONE, TIMESTAMP WITH TIME ZONE) TO authenticated;